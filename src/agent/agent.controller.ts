@@ -1,15 +1,33 @@
-import { Body, Controller, Post } from '@nestjs/common';
+import { Body, Controller, Get, Post, Res } from '@nestjs/common';
+import type { Response } from 'express';
 import { AgentService } from './agent.service';
 import { ChatRequestDto } from './dto/chat-request.dto';
 import { ChatResponseDto } from './dto/chat-response.dto';
+import { AgentToolInfo, ToolRegistryService } from './tools/tool-registry.service';
+import { writeSse } from '../common/sse';
+import { accessScopeOf, CurrentKey, Roles, sessionOwnerOf, type ApiKeyPrincipal } from '../auth/auth.decorators';
 
+@Roles(['query'])
 @Controller('agent')
 export class AgentController {
-  constructor(private readonly agentService: AgentService) { }
+  constructor(
+    private readonly agentService: AgentService,
+    private readonly toolRegistry: ToolRegistryService,
+  ) { }
 
   @Post('chat')
-  async chat(@Body() body: ChatRequestDto): Promise<ChatResponseDto> {
-    return this.agentService.handleChat(body);
+  async chat(@Body() body: ChatRequestDto, @CurrentKey() key?: ApiKeyPrincipal): Promise<ChatResponseDto> {
+    return this.agentService.handleChat(body, accessScopeOf(key), sessionOwnerOf(key));
+  }
+
+  /** SSE: `tool` events as tools run, `token` answer deltas, then `done` with sources and toolCalls. */
+  @Post('chat/stream')
+  async chatStream(@Body() body: ChatRequestDto, @Res() res: Response, @CurrentKey() key?: ApiKeyPrincipal) {
+    await writeSse(res, this.agentService.handleChatStream(body, accessScopeOf(key), sessionOwnerOf(key)));
   }
-}
 
+  @Get('tools')
+  tools(): AgentToolInfo[] {
+    return this.toolRegistry.list();
+  }
+}
@@ -0,0 +1,51 @@
+import { AIMessage, HumanMessage, ToolMessage, type BaseMessage } from '@langchain/core/messages';
+import type { BaseChatModel } from '@langchain/core/language_models/chat_models';
+import { tool } from '@langchain/core/tools';
+import { z } from 'zod/v4';
+import { buildAgentGraph } from './agent.graph';
+
+describe('buildAgentGraph', () => {
+  it('answers tool calls left open by the step budget before the final call', async () => {
+    const calls: BaseMessage[][] = [];
+    // A model that requests a tool on every call, including the final answer.
+    const llm = {
+      bindTools: () => llm,
+      invoke: async (messages: BaseMessage[]) => {
+        calls.push(messages);
+        return new AIMessage({
+          content: `answer ${calls.length}`,
+          tool_calls: [{ id: `call-${calls.length}`, name: 'lookup_order', args: { orderId: 'ORD-1' } }],
+        });
+      },
+    } as unknown as BaseChatModel;
+    const lookupOrder = tool(async () => 'ORD-1 shipped', {
+      name: 'lookup_order',
+      description: 'Look up an order',
+      schema: z.object({ orderId: z.string() }),
+    });
+
+    const graph = buildAgentGraph({
+      runModel: async (call) => ({
+        result: await call(llm, new AbortController().signal),
+        model: { provider: 'ollama', model: 'fake' },
+        fallback: false,
+        attempts: 1,
+      }),
+      tools: [lookupOrder],
+      retrieve: async () => [],
+      maxSteps: 2,
+    });
+    const result = await graph.invoke({ messages: [new HumanMessage('Where is ORD-1?')] });
+
+    expect(calls).toHaveLength(3);
+    const final = calls[2];
+    const answered = new Set(
+      final.filter((m): m is ToolMessage => m instanceof ToolMessage).map((m) => m.tool_call_id),
+    );
+    const requested = final.flatMap((m) => (m instanceof AIMessage ? m.tool_calls ?? [] : []));
+    expect(requested.map((c) => c.id)).toEqual(['call-1', 'call-2']);
+    for (const call of requested) expect(answered.has(call.id!)).toBe(true);
+    expect(result.finalAnswer).toBe('answer 3');
+    expect(result.toolCalls).toHaveLength(1);
+  });
+});
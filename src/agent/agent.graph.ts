@@ -0,0 +1,230 @@
+import {
+  AIMessage,
+  BaseMessage,
+  SystemMessage,
+  ToolMessage,
+} from '@langchain/core/messages';
+import type { BaseChatModel } from '@langchain/core/language_models/chat_models';
+import type { StructuredToolInterface } from '@langchain/core/tools';
+import { Annotation, END, START, StateGraph, messagesStateReducer } from '@langchain/langgraph';
+import type { RagDocument } from '../rag/rag.service';
+import type { ModelRef, ModelRun } from '../models/model-provider.service';
+
+/** One tool execution performed by the agent loop. */
+export interface AgentToolCall {
+  tool: string;
+  input: Record<string, unknown>;
+  output?: string;
+  success: boolean;
+  error?: string;
+  /** SQL a text-to-SQL tool generated, read from its result or error. */
+  sql?: string;
+}
+
+export const AgentState = Annotation.Root({
+  messages: Annotation<BaseMessage[]>({
+    reducer: messagesStateReducer,
+    default: () => [],
+  }),
+  /** Retrieval query; defaults to the latest user message (set it to a condensed follow-up). */
+  query: Annotation<string>({
+    reducer: (_prev, next) => next,
+    default: () => '',
+  }),
+  /** Knowledge chunks retrieved for the user's message before the first decision. */
+  context: Annotation<RagDocument[]>({
+    reducer: (_prev, next) => next,
+    default: () => [],
+  }),
+  /** Number of decide steps taken so far (bounded by maxSteps). */
+  steps: Annotation<number>({
+    reducer: (_prev, next) => next,
+    default: () => 0,
+  }),
+  toolCalls: Annotation<AgentToolCall[]>({
+    reducer: (prev, next) => prev.concat(next),
+    default: () => [],
+  }),
+  finalAnswer: Annotation<string>({
+    reducer: (_prev, next) => next,
+    default: () => '',
+  }),
+  /** Chat model of the latest LLM step; `fallback` is true when the first choice failed. */
+  answeredBy: Annotation<(ModelRef & { fallback: boolean }) | undefined>({
+    reducer: (_prev, next) => next,
+    default: () => undefined,
+  }),
+});
+
+export type AgentStateType = typeof AgentState.State;
+
+export interface AgentGraphDeps {
+  /** Runs one LLM call with retries, timeout and fallback models (ModelProviderService.runWithFallback). */
+  runModel: <T>(call: (llm: BaseChatModel, signal: AbortSignal) => Promise<T>) => Promise<ModelRun<T>>;
+  tools: StructuredToolInterface[];
+  retrieve: (query: string) => Promise<RagDocument[]>;
+  /** Called after every tool execution (e.g. to persist a ToolCallLog row). */
+  onToolCall?: (call: AgentToolCall) => Promise<void>;
+  /** Max LLM decide steps before the agent must answer with what it has. */
+  maxSteps: number;
+}
+
+const SYSTEM_PROMPT = [
+  'You are an operations assistant for orders, invoices, shipping and company policies.',
+  'Use the knowledge snippets below and the available tools to answer.',
+  'Call a tool only when the snippets do not already contain the answer.',
+  'Never invent order numbers, invoice numbers, tracking IDs or amounts.',
+  "If you cannot find the answer, say you don't know based on the available data.",
+].join(' ');
+
+function formatContext(context: RagDocument[]): string {
+  if (context.length === 0) return 'Knowledge snippets: (none found)';
+  const snippets = context.map(
+    (doc, i) => `[${i + 1}] ${doc.title}${doc.source ? ` (${doc.source})` : ''}:\n${doc.content}`,
+  );
+  return `Knowledge snippets:\n${snippets.join('\n\n')}`;
+}
+
+function lastMessage(state: AgentStateType): BaseMessage | undefined {
+  return state.messages[state.messages.length - 1];
+}
+
+function pendingToolCalls(message: BaseMessage | undefined) {
+  return message instanceof AIMessage ? message.tool_calls ?? [] : [];
+}
+
+/**
+ * Placeholder results for tool calls that were never run. Providers reject a history whose
+ * tool calls have no matching tool message.
+ */
+function skippedToolResults(message: BaseMessage | undefined): ToolMessage[] {
+  return pendingToolCalls(message).map(
+    (call) =>
+      new ToolMessage({
+        tool_call_id: call.id ?? call.name,
+        name: call.name,
+        content: 'Not executed: step budget exhausted.',
+      }),
+  );
+}
+
+function sqlOf(value: unknown): string | undefined {
+  const sql = value && typeof value === 'object' ? (value as { sql?: unknown }).sql : undefined;
+  return typeof sql === 'string' ? sql : undefined;
+}
+
+function messageText(message: BaseMessage): string {
+  return typeof message.content === 'string'
+    ? message.content
+    : message.content
+        .map((part) => ('text' in part && typeof part.text === 'string' ? part.text : ''))
+        .join('');
+}
+
+/**
+ * ReAct-style loop: retrieve → decide ⇄ callTool → answer.
+ *
+ * `decide` lets the LLM pick tools; `callTool` runs them and feeds results back; once the LLM
+ * stops requesting tools (or the step budget is spent) `answer` produces the final message.
+ */
+export function buildAgentGraph(deps: AgentGraphDeps) {
+  const toolsByName = new Map(deps.tools.map((t) => [t.name, t]));
+  const withTools = (llm: BaseChatModel) =>
+    deps.tools.length > 0 && llm.bindTools ? llm.bindTools(deps.tools) : llm;
+  const answeredBy = (run: ModelRun<unknown>) => ({ ...run.model, fallback: run.fallback });
+
+  const systemMessage = (state: AgentStateType) =>
+    new SystemMessage(`${SYSTEM_PROMPT}\n\n${formatContext(state.context)}`);
+
+  const retrieve = async (state: AgentStateType) => {
+    const lastUser = [...state.messages].reverse().find((m) => m.getType() === 'human');
+    const query = state.query || (lastUser ? messageText(lastUser) : '');
+    const context = query ? await deps.retrieve(query) : [];
+    return { context };
+  };
+
+  const decide = async (state: AgentStateType) => {
+    const run = await deps.runModel((llm, signal) =>
+      withTools(llm).invoke([systemMessage(state), ...state.messages], { signal }),
+    );
+    return { messages: [run.result], steps: state.steps + 1, answeredBy: answeredBy(run) };
+  };
+
+  const callTool = async (state: AgentStateType) => {
+    const calls = pendingToolCalls(lastMessage(state));
+    const messages: ToolMessage[] = [];
+    const records: AgentToolCall[] = [];
+
+    for (const call of calls) {
+      const tool = toolsByName.get(call.name);
+      const record: AgentToolCall = { tool: call.name, input: call.args, success: false };
+      try {
+        if (!tool) throw new Error(`Unknown tool: ${call.name}`);
+        const result: unknown = await tool.invoke(call.args);
+        record.output = typeof result === 'string' ? result : JSON.stringify(result);
+        record.sql = sqlOf(result);
+        record.success = true;
+      } catch (err) {
+        record.error = err instanceof Error ? err.message : String(err);
+        record.sql = sqlOf(err);
+      }
+
+      messages.push(
+        new ToolMessage({
+          tool_call_id: call.id ?? call.name,
+          name: call.name,
+          content: record.success ? record.output ?? '' : `Error: ${record.error}`,
+        }),
+      );
+      records.push(record);
+      await deps.onToolCall?.(record);
+    }
+
+    return { messages, toolCalls: records };
+  };
+
+  const answer = async (state: AgentStateType) => {
+    const last = lastMessage(state);
+    if (last && pendingToolCalls(last).length === 0 && last.getType() === 'ai') {
+      return { finalAnswer: messageText(last) };
+    }
+
+    // Step budget spent while the model still wanted tools: answer without tools.
+    const skipped = skippedToolResults(last);
+    const run = await deps.runModel((llm, signal) =>
+      llm.invoke(
+        [
+          systemMessage(state),
+          ...state.messages,
+          ...skipped,
+          new SystemMessage(
+            'Tool budget exhausted. Answer now using only the information gathered so far.',
+          ),
+        ],
+        { signal },
+      ),
+    );
+    return {
+      messages: [...skipped, run.result],
+      finalAnswer: messageText(run.result),
+      answeredBy: answeredBy(run),
+    };
+  };
+
+  const routeAfterDecide = (state: AgentStateType) => {
+    if (pendingToolCalls(lastMessage(state)).length === 0) return 'answer';
+    return state.steps < deps.maxSteps ? 'callTool' : 'answer';
+  };
+
+  return new StateGraph(AgentState)
+    .addNode('retrieve', retrieve)
+    .addNode('decide', decide)
+    .addNode('callTool', callTool)
+    .addNode('answer', answer)
+    .addEdge(START, 'retrieve')
+    .addEdge('retrieve', 'decide')
+    .addConditionalEdges('decide', routeAfterDecide, ['callTool', 'answer'])
+    .addEdge('callTool', 'decide')
+    .addEdge('answer', END)
+    .compile();
+}
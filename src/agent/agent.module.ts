@@ -1,12 +1,27 @@
 import { Module } from '@nestjs/common';
+import { DiscoveryModule } from '@nestjs/core';
 import { AgentController } from './agent.controller';
 import { AgentService } from './agent.service';
 import { RagModule } from '../rag/rag.module';
+import { SessionModule } from '../session/session.module';
+import { ToolRegistryService } from './tools/tool-registry.service';
+import { KnowledgeSearchTool } from './tools/knowledge-search.tool';
+import { OrderLookupTool } from './tools/order-lookup.tool';
+import { InvoiceLookupTool } from './tools/invoice-lookup.tool';
+import { ShippingTrackingTool } from './tools/shipping-tracking.tool';
+import { InvoiceSqlTool } from './tools/invoice-sql.tool';
 
 @Module({
-  imports: [RagModule],
+  imports: [DiscoveryModule, RagModule, SessionModule],
   controllers: [AgentController],
-  providers: [AgentService],
+  providers: [
+    AgentService,
+    ToolRegistryService,
+    KnowledgeSearchTool,
+    OrderLookupTool,
+    InvoiceLookupTool,
+    ShippingTrackingTool,
+    InvoiceSqlTool,
+  ],
 })
 export class AgentModule { }
-
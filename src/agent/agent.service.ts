@@ -1,38 +1,212 @@
-import { Injectable } from '@nestjs/common';
+import { Injectable, NotFoundException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { AIMessage, AIMessageChunk, BaseMessage, HumanMessage } from '@langchain/core/messages';
 import { ChatRequestDto } from './dto/chat-request.dto';
 import { ChatResponseDto } from './dto/chat-response.dto';
-import { RagService } from '../rag/rag.service';
+import { DEFAULT_KNOWLEDGE_BASE, RagService, type SearchScope } from '../rag/rag.service';
+import { PrismaService } from '../prisma/prisma.service';
+import { AppLogger } from '../common/app-logger';
+import { AgentStateType, AgentToolCall, buildAgentGraph } from './agent.graph';
+import { ToolRegistryService } from './tools/tool-registry.service';
+import { SessionService } from '../session/session.service';
+import { condenseQuestion } from '../session/condense-question';
+import { ModelProviderService } from '../models/model-provider.service';
+import type { AccessScope } from '../chat/helper/access-control';
+
+export type AgentStreamEvent =
+  | { type: 'token'; data: string }
+  | { type: 'tool'; data: ToolCallDto }
+  | { type: 'done'; data: Omit<ChatResponseDto, 'message'> };
+
+type ToolCallDto = NonNullable<ChatResponseDto['toolCalls']>[number];
+
+function toToolCallDto(call: AgentToolCall): ToolCallDto {
+  return {
+    tool: call.tool,
+    input: call.input,
+    success: call.success,
+    ...(call.error ? { error: call.error } : {}),
+    ...(call.sql ? { sql: call.sql } : {}),
+  };
+}
 
 @Injectable()
 export class AgentService {
-  constructor(private readonly ragService: RagService) { }
+  private readonly appLog = new AppLogger(AgentService.name);
+
+  constructor(
+    private readonly ragService: RagService,
+    private readonly models: ModelProviderService,
+    private readonly prisma: PrismaService,
+    private readonly configService: ConfigService,
+    private readonly toolRegistry: ToolRegistryService,
+    private readonly sessionService: SessionService,
+  ) { }
+
+  /**
+   * Runs the LangGraph agent (retrieve → decide ⇄ callTool → answer) for one message.
+   * Every executed tool call is returned in `toolCalls` and logged to ToolCallLog. Retrieval and
+   * document-reading tools only see the request's knowledge base, and with `access` only the
+   * documents the caller may read. With `sessionOwner` only that key's sessions can be continued.
+   */
+  async handleChat(
+    request: ChatRequestDto,
+    access?: AccessScope,
+    sessionOwner?: string,
+  ): Promise<ChatResponseDto> {
+    const run = await this.prepareRun(request, access, sessionOwner);
+    const result = await run.graph.invoke(run.input, run.config);
+    return this.completeRun(request, result, sessionOwner);
+  }
 
   /**
-   * Very simplified orchestration logic:
-   * - Uses RAG to fetch context for the message.
-   * - Optionally calls a tool based on naive pattern matching.
-   * - Returns a structured response.
-   *
-   * In a real implementation this would be handled by LangChain.js / LangGraph
-   * with a ReAct-style agent loop and Gemini as the LLM.
+   * Streaming variant of handleChat(): `tool` events as tools finish, `token` events with answer
+   * deltas from the LLM, then `done` with the full response (minus the already streamed message).
    */
-  async handleChat(request: ChatRequestDto): Promise<ChatResponseDto> {
-    const { message } = request;
+  async *handleChatStream(
+    request: ChatRequestDto,
+    access?: AccessScope,
+    sessionOwner?: string,
+  ): AsyncGenerator<AgentStreamEvent> {
+    const run = await this.prepareRun(request, access, sessionOwner);
+    const stream = await run.graph.stream(run.input, {
+      ...run.config,
+      streamMode: ['messages', 'updates', 'values'],
+    });
+
+    let finalState: AgentStateType | undefined;
+    for await (const [mode, chunk] of stream) {
+      if (mode === 'messages') {
+        const [message, metadata] = chunk as [AIMessageChunk, { langgraph_node?: string }];
+        const text = typeof message.content === 'string' ? message.content : '';
+        // Only LLM output from decide/answer is answer text; skip tool-call chunks.
+        if (text && !message.tool_call_chunks?.length && metadata.langgraph_node !== 'callTool') {
+          yield { type: 'token', data: text };
+        }
+      } else if (mode === 'updates') {
+        const update = chunk as { callTool?: { toolCalls?: AgentToolCall[] } };
+        for (const call of update.callTool?.toolCalls ?? []) {
+          yield { type: 'tool', data: toToolCallDto(call) };
+        }
+      } else {
+        finalState = chunk as AgentStateType;
+      }
+    }
+
+    if (!finalState) throw new Error('Agent stream ended without a final state');
+    const { message: _message, ...rest } = await this.completeRun(request, finalState, sessionOwner);
+    yield { type: 'done', data: rest };
+  }
 
-    const context = await this.ragService.search(message);
+  private async prepareRun(request: ChatRequestDto, access?: AccessScope, sessionOwner?: string) {
+    const { message, sessionId, knowledgeBaseId = DEFAULT_KNOWLEDGE_BASE } = request;
+    if (knowledgeBaseId !== DEFAULT_KNOWLEDGE_BASE && !(await this.ragService.getKnowledgeBase(knowledgeBaseId))) {
+      throw new NotFoundException(`Knowledge base ${knowledgeBaseId} not found`);
+    }
+    const scope: SearchScope = { knowledgeBaseId, access };
+    const maxSteps = parseInt(this.configService.get('AGENT_MAX_STEPS') ?? '4', 10);
 
-    const response: ChatResponseDto = {
-      message:
-        'This is a placeholder response from the Agent orchestrator. ' +
-        'RAG and tool calls will be wired to Gemini + LangChain/LangGraph in the next step.\n\n' +
-        `Retrieved ${context.length} knowledge item(s) as context.`,
-      sources: context.map((doc) => ({
+    // Earlier turns go to the LLM as chat history; retrieval uses the condensed follow-up.
+    const history = sessionId ? await this.sessionService.getHistory(sessionId, sessionOwner) : [];
+    const historyMessages: BaseMessage[] = history.map((turn) =>
+      turn.role === 'user' ? new HumanMessage(turn.content) : new AIMessage(turn.content),
+    );
+    let query = message;
+    try {
+      query = (
+        await this.models.runWithFallback(request.model, (llm, signal) =>
+          condenseQuestion(llm, history, message, signal),
+        )
+      ).result;
+    } catch (err) {
+      this.appLog.warn('Condensing follow-up failed; retrieving with the original message', {
+        sessionId,
+        error: err instanceof Error ? err.message : String(err),
+      });
+    }
+
+    const graph = buildAgentGraph({
+      runModel: (call) => this.models.runWithFallback(request.model, call),
+      tools: this.toolRegistry.asLangChainTools(scope),
+      retrieve: (query) => this.retrieveContext(query, scope),
+      onToolCall: (call) => this.logToolCall(call),
+      maxSteps,
+    });
+
+    return {
+      graph,
+      input: { messages: [...historyMessages, new HumanMessage(message)], query },
+      // Each step is decide + callTool; leave headroom for retrieve and answer.
+      config: { recursionLimit: maxSteps * 2 + 4 },
+    };
+  }
+
+  private async completeRun(
+    request: ChatRequestDto,
+    result: AgentStateType,
+    sessionOwner?: string,
+  ): Promise<ChatResponseDto> {
+    const { message, sessionId } = request;
+
+    if (sessionId) {
+      await this.sessionService.appendTurn(
+        sessionId,
+        message,
+        result.finalAnswer,
+        { toolCalls: result.toolCalls.map((call) => call.tool), answeredBy: result.answeredBy },
+        sessionOwner,
+      );
+    }
+
+    this.appLog.log('Agent chat complete', {
+      steps: result.steps,
+      toolCalls: result.toolCalls.length,
+      contextCount: result.context.length,
+      answeredBy: result.answeredBy,
+    });
+
+    return {
+      message: result.finalAnswer,
+      ...(sessionId ? { sessionId } : {}),
+      sources: result.context.map((doc) => ({
         id: doc.id,
         title: doc.title,
+        ...(typeof doc.metadata.page === 'number' ? { page: doc.metadata.page } : {}),
       })),
+      toolCalls: result.toolCalls.map(toToolCallDto),
+      ...(result.answeredBy ? { answeredBy: result.answeredBy } : {}),
     };
+  }
 
-    return response;
+  /** pgvector retrieval; an unavailable database degrades to "no context" instead of failing the chat. */
+  private async retrieveContext(query: string, scope: SearchScope) {
+    try {
+      return await this.ragService.search(query, undefined, scope);
+    } catch (err) {
+      this.appLog.warn('Agent retrieval failed; continuing without context', {
+        error: err instanceof Error ? err.message : String(err),
+      });
+      return [];
+    }
   }
-}
 
+  private async logToolCall(call: AgentToolCall): Promise<void> {
+    try {
+      await this.prisma.toolCallLog.create({
+        data: {
+          toolName: call.tool,
+          input: JSON.stringify(call.input),
+          output: call.output ?? null,
+          success: call.success,
+          error: call.error ?? null,
+          sql: call.sql ?? null,
+        },
+      });
+    } catch (err) {
+      this.appLog.warn('Failed to persist ToolCallLog', {
+        tool: call.tool,
+        error: err instanceof Error ? err.message : String(err),
+      });
+    }
+  }
+}
@@ -7,5 +7,15 @@ export class ChatRequestDto {
   @IsOptional()
   @IsString()
   sessionId?: string;
+
+  /** Knowledge base the agent and its tools search; defaults to "default". */
+  @IsOptional()
+  @IsString()
+  knowledgeBaseId?: string;
+
+  /** Chat model override: `"provider:model"` (ollama, openai, gemini) or an Ollama/default-provider model name. */
+  @IsOptional()
+  @IsString()
+  model?: string;
 }
 
@@ -1,12 +1,20 @@
+import type { ModelRef } from '../../models/model-provider.service';
+
 export class ChatResponseDto {
   message: string;
+  sessionId?: string;
   sources?: Array<{
     id: string;
     title: string;
+    page?: number;
   }>;
   toolCalls?: Array<{
     tool: string;
+    input: Record<string, unknown>;
     success: boolean;
+    error?: string;
+    sql?: string;
   }>;
+  /** Chat model that produced the answer; `fallback` is true when the first choice failed. */
+  answeredBy?: ModelRef & { fallback: boolean };
 }
-
@@ -0,0 +1,29 @@
+import { DiscoveryService } from '@nestjs/core';
+import type { z } from 'zod/v4';
+import type { AccessScope } from '../../chat/helper/access-control';
+
+/** Per-request context handed to every tool call; tools that read documents must apply it. */
+export interface AgentToolContext {
+  /** Knowledge base of the request; defaults to "default". */
+  knowledgeBaseId?: string;
+  /** Caller's document access. Unset means unrestricted. */
+  access?: AccessScope;
+}
+
+/**
+ * A business tool the agent can call. Implement this on an @Injectable() class, mark it with
+ * @AgentToolProvider() and add it to any module's providers: ToolRegistryService discovers it
+ * at startup, no AgentService changes needed.
+ */
+export interface AgentTool<TSchema extends z.ZodObject = z.ZodObject> {
+  /** Unique snake_case name the LLM uses to call the tool. */
+  readonly name: string;
+  /** Tells the LLM when to use the tool. */
+  readonly description: string;
+  /** Input schema; arguments are validated against it before `handle` runs. */
+  readonly schema: TSchema;
+  handle(input: z.infer<TSchema>, context: AgentToolContext): Promise<unknown>;
+}
+
+/** Class decorator that registers an AgentTool provider with the ToolRegistryService. */
+export const AgentToolProvider = DiscoveryService.createDecorator();
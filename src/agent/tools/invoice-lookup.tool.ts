@@ -0,0 +1,26 @@
+import { Injectable } from '@nestjs/common';
+import { z } from 'zod/v4';
+import { RagService } from '../../rag/rag.service';
+import { AgentTool, AgentToolContext, AgentToolProvider } from './agent-tool.interface';
+import { formatRagResults } from './tool-format';
+
+const schema = z.object({
+  invoiceNumber: z.string().min(1).describe('Invoice number, e.g. "189012"'),
+});
+
+@AgentToolProvider()
+@Injectable()
+export class InvoiceLookupTool implements AgentTool<typeof schema> {
+  readonly name = 'lookup_invoice';
+  readonly description =
+    'Find the invoice with an exact invoice number and return its recorded details ' +
+    '(customer, order, line items, totals).';
+  readonly schema = schema;
+
+  constructor(private readonly ragService: RagService) { }
+
+  async handle({ invoiceNumber }: z.infer<typeof schema>, context: AgentToolContext): Promise<string> {
+    const docs = await this.ragService.findByKeyword(invoiceNumber, undefined, context);
+    return formatRagResults(docs, `No invoice ${invoiceNumber} found.`);
+  }
+}
@@ -0,0 +1,199 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Prisma } from '@prisma/client';
+import { z } from 'zod/v4';
+import type { BaseChatModel } from '@langchain/core/language_models/chat_models';
+import { ChatPromptTemplate } from '@langchain/core/prompts';
+import { StringOutputParser } from '@langchain/core/output_parsers';
+import { PrismaService } from '../../prisma/prisma.service';
+import { ModelProviderService } from '../../models/model-provider.service';
+import { AppLogger } from '../../common/app-logger';
+import { AgentTool, AgentToolContext, AgentToolProvider } from './agent-tool.interface';
+import { scopeEntries, type AccessScope } from '../../chat/helper/access-control';
+import { DEFAULT_KNOWLEDGE_BASE } from '../../rag/rag.service';
+import { validateReadOnlySql } from './sql-guard';
+
+const schema = z.object({
+  question: z
+    .string()
+    .min(1)
+    .describe('The data question in plain words, e.g. "total invoiced to ACME in March 2025"'),
+});
+
+/**
+ * The only tables the generated SQL may read: CTEs over "Invoice" / "InvoiceLineItem" holding
+ * the rows of one knowledge base (see runReadOnly), described to the model column by column.
+ */
+const SQL_TABLES = ['invoices', 'invoice_line_items'];
+
+/** Real tables; the generated SQL may not name a CTE after one and read it that way. */
+const DATABASE_TABLES = Object.values(Prisma.ModelName);
+
+const SQL_SCHEMA = [
+  'Table "invoices" (one row per extracted invoice):',
+  '  "id" text, "number" text (invoice number), "date" timestamp, "customer" text,',
+  '  "currency" text (ISO 4217), "subtotal" numeric, "tax" numeric, "total" numeric,',
+  '  "carrier" text, "trackingId" text, "documentId" text, "createdAt" timestamp',
+  'Table "invoice_line_items" (invoice lines):',
+  '  "id" text, "invoiceId" text (references "invoices"."id"), "position" int, "description" text,',
+  '  "sku" text, "quantity" numeric, "unitPrice" numeric, "amount" numeric',
+].join('\n');
+
+const SQL_PROMPT = ChatPromptTemplate.fromMessages([
+  [
+    'system',
+    [
+      'You write one read-only PostgreSQL SELECT query that answers the question.',
+      'Use only these tables and columns:\n{schema}\n',
+      'Always double-quote table and column names exactly as shown.',
+      `Match customers with ILIKE '%name%'.`,
+      'For a month without a year, filter with EXTRACT(MONTH FROM "date") and group by year.',
+      'Give aggregates readable aliases. Reply with the SQL only: no explanation, no markdown.',
+    ].join(' '),
+  ],
+  ['human', '{question}{feedback}'],
+]);
+
+/** The SQL in a model reply, without a ```sql fence if the model added one. */
+function sqlFromReply(reply: string): string {
+  const fenced = /```(?:sql)?\s*([\s\S]*?)```/i.exec(reply);
+  return (fenced ? fenced[1] : reply).trim();
+}
+
+/** Raw query values as JSON-friendly values: counts are bigint, sums are Decimal. */
+function toJsonValue(value: unknown): unknown {
+  if (typeof value === 'bigint') return Number(value);
+  if (Prisma.Decimal.isDecimal(value)) return (value as Prisma.Decimal).toNumber();
+  if (value instanceof Date) return value.toISOString();
+  return value;
+}
+
+/** Error that keeps the last generated SQL, so the ToolCallLog records what was rejected. */
+class SqlToolError extends Error {
+  constructor(
+    message: string,
+    readonly sql: string,
+  ) {
+    super(message);
+  }
+}
+
+@AgentToolProvider()
+@Injectable()
+export class InvoiceSqlTool implements AgentTool<typeof schema> {
+  readonly name = 'query_invoice_data';
+  readonly description =
+    'Answer questions that need totals, counts, averages or lists across extracted invoices ' +
+    '(e.g. "total invoiced to ACME in March", "top 5 SKUs by quantity") by running a ' +
+    'read-only SQL query. Returns the SQL and the result rows.';
+  readonly schema = schema;
+
+  private readonly appLog = new AppLogger(InvoiceSqlTool.name);
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly prisma: PrismaService,
+    private readonly models: ModelProviderService,
+  ) { }
+
+  /**
+   * Generate SQL, validate it and run it over the invoices of the request's knowledge base. A
+   * rejected or failing query is sent back to the model once with the error, since small models
+   * often get a quote or column name wrong.
+   */
+  async handle(
+    { question }: z.infer<typeof schema>,
+    { knowledgeBaseId = DEFAULT_KNOWLEDGE_BASE, access }: AgentToolContext,
+  ) {
+    if (access && (await this.hasUnreadableInvoices(knowledgeBaseId, access))) {
+      throw new Error('Invoice data includes documents this caller may not read; SQL over invoices is not available.');
+    }
+    let feedback = '';
+    let sql = '';
+    for (let attempt = 1; ; attempt++) {
+      sql = (
+        await this.models.runWithFallback(undefined, (llm, signal) =>
+          this.generateSql(llm, question, feedback, signal),
+        )
+      ).result;
+      try {
+        const { rows, truncated } = await this.runReadOnly(
+          validateReadOnlySql(sql, SQL_TABLES, DATABASE_TABLES),
+          knowledgeBaseId,
+        );
+        this.appLog.log('SQL tool query ran', { attempt, knowledgeBaseId, rows: rows.length, truncated });
+        return { sql, rowCount: rows.length, truncated, rows };
+      } catch (err) {
+        const message = err instanceof Error ? err.message : String(err);
+        this.appLog.warn('SQL tool query failed', { attempt, sql, error: message });
+        if (attempt >= 2) throw new SqlToolError(`SQL query failed: ${message}`, sql);
+        feedback = `\n\nYour previous query failed.\nQuery: ${sql}\nError: ${message}\nWrite a corrected query.`;
+      }
+    }
+  }
+
+  private async generateSql(
+    llm: BaseChatModel,
+    question: string,
+    feedback: string,
+    signal: AbortSignal,
+  ): Promise<string> {
+    const reply = await SQL_PROMPT.pipe(llm)
+      .pipe(new StringOutputParser())
+      .invoke({ schema: SQL_SCHEMA, question, feedback }, { signal });
+    return sqlFromReply(reply);
+  }
+
+  /**
+   * Generated SQL reads every invoice of the knowledge base, so document ACLs cannot be applied
+   * to it. Callers with restricted access may only use the tool while every invoice there comes
+   * from a document they can read.
+   */
+  private async hasUnreadableInvoices(knowledgeBaseId: string, access: AccessScope): Promise<boolean> {
+    const [{ hidden }] = await this.prisma.$queryRaw<{ hidden: boolean }[]>`
+      SELECT EXISTS (
+        SELECT 1 FROM "Invoice" i
+        JOIN "Document" d ON d."id" = i."documentId"
+        WHERE i."knowledgeBaseId" = ${knowledgeBaseId}
+          AND COALESCE(d."metadata"->'access', '[]'::jsonb) <> '[]'::jsonb
+          AND NOT (d."metadata"->'access' ?| ${scopeEntries(access)}::text[])
+      ) AS "hidden"`;
+    return hidden;
+  }
+
+  /**
+   * Run a validated query in a READ ONLY transaction with SET LOCAL statement_timeout. The
+   * tables it may read are CTEs limited to one knowledge base. One row over the limit is fetched
+   * to tell whether the result was truncated.
+   */
+  private async runReadOnly(sql: string, knowledgeBaseId: string) {
+    const maxRows = parseInt(this.configService.get('SQL_TOOL_MAX_ROWS') ?? '50', 10);
+    const timeoutMs = parseInt(this.configService.get('SQL_TOOL_TIMEOUT_MS') ?? '5000', 10);
+
+    const rows = await this.prisma.$transaction(
+      async (tx) => {
+        await tx.$executeRawUnsafe('SET TRANSACTION READ ONLY');
+        await tx.$executeRawUnsafe(`SET LOCAL statement_timeout = ${timeoutMs}`);
+        return tx.$queryRaw<Record<string, unknown>[]>`
+          WITH "invoices" AS (
+            SELECT "id", "number", "date", "customer", "currency", "subtotal", "tax", "total",
+                   "carrier", "trackingId", "documentId", "createdAt"
+            FROM "Invoice" WHERE "knowledgeBaseId" = ${knowledgeBaseId}
+          ), "invoice_line_items" AS (
+            SELECT l."id", l."invoiceId", l."position", l."description", l."sku", l."quantity",
+                   l."unitPrice", l."amount"
+            FROM "InvoiceLineItem" l JOIN "invoices" i ON i."id" = l."invoiceId"
+          )
+          SELECT * FROM (${Prisma.raw(sql)}) AS result LIMIT ${maxRows + 1}`;
+      },
+      { timeout: timeoutMs + 5000 },
+    );
+
+    return {
+      truncated: rows.length > maxRows,
+      rows: rows
+        .slice(0, maxRows)
+        .map((row) => Object.fromEntries(Object.entries(row).map(([k, v]) => [k, toJsonValue(v)]))),
+    };
+  }
+}
@@ -0,0 +1,30 @@
+import { Injectable } from '@nestjs/common';
+import { z } from 'zod/v4';
+import { RagService } from '../../rag/rag.service';
+import { AgentTool, AgentToolContext, AgentToolProvider } from './agent-tool.interface';
+import { formatRagResults } from './tool-format';
+
+const schema = z.object({
+  query: z.string().describe('Search query, e.g. "tracking ID for order ORD-1001"'),
+  k: z.number().int().min(1).max(10).optional().describe('Number of results (default 4)'),
+});
+
+/**
+ * Lets the agent run follow-up searches (e.g. with an order or invoice number it found)
+ * beyond the initial retrieval for the user's message.
+ */
+@AgentToolProvider()
+@Injectable()
+export class KnowledgeSearchTool implements AgentTool<typeof schema> {
+  readonly name = 'search_knowledge_base';
+  readonly description =
+    'Semantic search over ingested invoices, shipping documents and policies. ' +
+    'Use for questions the provided snippets do not answer.';
+  readonly schema = schema;
+
+  constructor(private readonly ragService: RagService) { }
+
+  async handle({ query, k }: z.infer<typeof schema>, context: AgentToolContext): Promise<string> {
+    return formatRagResults(await this.ragService.search(query, k ?? 4, context));
+  }
+}
@@ -0,0 +1,26 @@
+import { Injectable } from '@nestjs/common';
+import { z } from 'zod/v4';
+import { RagService } from '../../rag/rag.service';
+import { AgentTool, AgentToolContext, AgentToolProvider } from './agent-tool.interface';
+import { formatRagResults } from './tool-format';
+
+const schema = z.object({
+  orderId: z.string().min(1).describe('Order number, e.g. "ORD-1001"'),
+});
+
+@AgentToolProvider()
+@Injectable()
+export class OrderLookupTool implements AgentTool<typeof schema> {
+  readonly name = 'lookup_order';
+  readonly description =
+    'Find documents (invoices, shipping notes) that mention an exact order number. ' +
+    'Returns products, quantities, customer and shipping details recorded for the order.';
+  readonly schema = schema;
+
+  constructor(private readonly ragService: RagService) { }
+
+  async handle({ orderId }: z.infer<typeof schema>, context: AgentToolContext): Promise<string> {
+    const docs = await this.ragService.findByKeyword(orderId, undefined, context);
+    return formatRagResults(docs, `No documents mention order ${orderId}.`);
+  }
+}
@@ -0,0 +1,31 @@
+import { Injectable } from '@nestjs/common';
+import { z } from 'zod/v4';
+import { RagService } from '../../rag/rag.service';
+import { AgentTool, AgentToolContext, AgentToolProvider } from './agent-tool.interface';
+import { formatRagResults } from './tool-format';
+
+const schema = z
+  .object({
+    trackingId: z.string().min(1).optional().describe('Carrier tracking ID, e.g. "FX-123456789"'),
+    orderId: z.string().min(1).optional().describe('Order number when the tracking ID is unknown'),
+  })
+  .refine((v) => v.trackingId || v.orderId, {
+    message: 'Provide trackingId or orderId',
+  });
+
+@AgentToolProvider()
+@Injectable()
+export class ShippingTrackingTool implements AgentTool<typeof schema> {
+  readonly name = 'track_shipment';
+  readonly description =
+    'Look up shipping details (carrier, tracking ID, delivery terms) by tracking ID or order number.';
+  readonly schema = schema;
+
+  constructor(private readonly ragService: RagService) { }
+
+  async handle({ trackingId, orderId }: z.infer<typeof schema>, context: AgentToolContext): Promise<string> {
+    const term = (trackingId ?? orderId) as string;
+    const docs = await this.ragService.findByKeyword(term, undefined, context);
+    return formatRagResults(docs, `No shipping records mention ${term}.`);
+  }
+}
@@ -0,0 +1,56 @@
+import { validateReadOnlySql } from './sql-guard';
+
+const TABLES = ['Invoice', 'InvoiceLineItem'];
+
+describe('validateReadOnlySql', () => {
+  it('accepts selects, joins, CTEs and extract() over whitelisted tables', () => {
+    const queries = [
+      `SELECT SUM("total") AS invoiced FROM "Invoice" WHERE "customer" ILIKE '%acme%' ` +
+        `AND EXTRACT(MONTH FROM "date") = 3;`,
+      'SELECT l."sku", SUM(l."quantity") FROM "Invoice" i JOIN "InvoiceLineItem" l ON l."invoiceId" = i."id" GROUP BY 1',
+      'SELECT i."number" FROM "Invoice" AS i, public."InvoiceLineItem" l WHERE l."invoiceId" = i."id"',
+      'WITH monthly AS (SELECT date_trunc(\'month\', "date") AS m, SUM("total") AS t FROM "Invoice" GROUP BY 1) SELECT * FROM monthly',
+    ];
+    for (const sql of queries) expect(() => validateReadOnlySql(sql, TABLES)).not.toThrow();
+    expect(validateReadOnlySql('SELECT 1 FROM "Invoice";  ', TABLES)).toBe('SELECT 1 FROM "Invoice"');
+  });
+
+  it('rejects writes, extra statements and comments', () => {
+    expect(() => validateReadOnlySql('DELETE FROM "Invoice"', TABLES)).toThrow('SELECT or WITH');
+    expect(() => validateReadOnlySql('SELECT 1; DROP TABLE "Invoice"', TABLES)).toThrow('one statement');
+    expect(() => validateReadOnlySql('WITH x AS (DELETE FROM "Invoice" RETURNING *) SELECT * FROM x', TABLES)).toThrow(
+      'DELETE',
+    );
+    expect(() => validateReadOnlySql('SELECT * INTO copy FROM "Invoice"', TABLES)).toThrow('INTO');
+    expect(() => validateReadOnlySql('SELECT 1 -- FROM "User"', TABLES)).toThrow('Comments');
+  });
+
+  it('rejects tables, catalogs and functions outside the whitelist', () => {
+    expect(() => validateReadOnlySql('SELECT * FROM "Document"', TABLES)).toThrow('Table "Document"');
+    expect(() => validateReadOnlySql('SELECT * FROM "Invoice", "ToolCallLog"', TABLES)).toThrow('ToolCallLog');
+    expect(() => validateReadOnlySql('SELECT * FROM "Invoice" UNION SELECT * FROM "User"', TABLES)).toThrow('User');
+    expect(() => validateReadOnlySql('SELECT usename FROM pg_user', TABLES)).toThrow('pg_user');
+    expect(() => validateReadOnlySql(`SELECT query_to_xml('select 1', true, true, '')`, TABLES)).toThrow();
+    expect(() => validateReadOnlySql('SELECT * FROM generate_series(1, 10)', TABLES)).toThrow();
+  });
+
+  it('rejects CTEs named like a real table', () => {
+    const sql = 'WITH "Document" AS (SELECT * FROM "Document") SELECT * FROM "Document"';
+    expect(() => validateReadOnlySql(sql, ['invoices'], ['Document', 'Invoice'])).toThrow('CTE name "Document"');
+    expect(() => validateReadOnlySql(sql, ['invoices'])).not.toThrow();
+  });
+
+  it('rejects unbalanced parentheses', () => {
+    expect(() => validateReadOnlySql('select 1) as r, "Invoice" as d, (select 1', TABLES)).toThrow('Unbalanced');
+    expect(() => validateReadOnlySql('SELECT COUNT(*) FROM "Invoice" WHERE ("total" > 1', TABLES)).toThrow(
+      'Unbalanced',
+    );
+    expect(() => validateReadOnlySql(`SELECT * FROM "Invoice" WHERE "customer" = ')'`, TABLES)).not.toThrow();
+  });
+
+  it('does not look inside string literals', () => {
+    expect(() =>
+      validateReadOnlySql(`SELECT * FROM "Invoice" WHERE "customer" = 'Drop; Delete -- Co'`, TABLES),
+    ).not.toThrow();
+  });
+});
@@ -0,0 +1,140 @@
+/**
+ * Static checks for model-written SQL before it reaches Postgres. This is the first line of
+ * defence only: the query also runs in a READ ONLY transaction with a statement timeout.
+ */
+
+/** Words that have no business in a read-only query (writes, DDL, session and server commands). */
+const FORBIDDEN_WORDS = new Set([
+  'insert', 'update', 'delete', 'merge', 'upsert', 'drop', 'alter', 'create', 'truncate',
+  'grant', 'revoke', 'copy', 'call', 'do', 'execute', 'prepare', 'deallocate', 'vacuum',
+  'analyze', 'cluster', 'reindex', 'refresh', 'lock', 'listen', 'notify', 'set', 'reset',
+  'into', 'information_schema', 'current_setting', 'set_config', 'dblink',
+]);
+
+/** System catalogs, large objects and functions that run a query given as text. */
+const FORBIDDEN_PATTERN = /^(pg_|lo_|dblink)|_to_xml/i;
+
+/** Functions whose arguments use FROM (`extract(month from "date")`) rather than naming a table. */
+const FROM_FUNCTIONS = new Set(['extract', 'substring', 'trim', 'overlay', 'position']);
+
+/** Words that can follow a table reference and are not an alias. */
+const CLAUSE_WORDS = new Set([
+  'where', 'group', 'order', 'having', 'limit', 'offset', 'join', 'inner', 'left', 'right',
+  'full', 'cross', 'natural', 'on', 'using', 'union', 'intersect', 'except', 'window', 'fetch',
+  'for', 'lateral', 'tablesample',
+]);
+
+type Token = { kind: 'word' | 'quoted' | 'string' | 'symbol'; value: string };
+
+function tokenize(sql: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+  while (i < sql.length) {
+    const ch = sql[i];
+    if (/\s/.test(ch)) {
+      i++;
+    } else if (sql.startsWith('--', i) || sql.startsWith('/*', i)) {
+      throw new Error('Comments are not allowed');
+    } else if (ch === '$') {
+      throw new Error('Dollar-quoted strings and parameters are not allowed');
+    } else if (ch === "'" || ch === '"') {
+      let end = i + 1;
+      // A doubled quote is an escaped quote inside the literal or identifier.
+      while (end < sql.length && (sql[end] !== ch || sql[end + 1] === ch)) end += sql[end] === ch ? 2 : 1;
+      if (end >= sql.length) throw new Error('Unterminated quote');
+      const value = sql.slice(i + 1, end).split(ch + ch).join(ch);
+      tokens.push({ kind: ch === "'" ? 'string' : 'quoted', value });
+      i = end + 1;
+    } else if (/[A-Za-z_]/.test(ch)) {
+      const word = /^[A-Za-z_][\w]*/.exec(sql.slice(i))![0];
+      tokens.push({ kind: 'word', value: word.toLowerCase() });
+      i += word.length;
+    } else {
+      tokens.push({ kind: 'symbol', value: ch });
+      i++;
+    }
+  }
+  return tokens;
+}
+
+const isName = (t: Token | undefined) => t?.kind === 'word' || t?.kind === 'quoted';
+
+/**
+ * Check that `sql` is a single SELECT (or WITH … SELECT) that only reads `allowedTables`
+ * (matched case-insensitively; CTE names are allowed too). A CTE may not take a name from
+ * `reservedNames`: inside its own definition the name would read the real table. Returns the
+ * query without a trailing semicolon; throws an Error naming the first problem found.
+ */
+export function validateReadOnlySql(
+  sql: string,
+  allowedTables: readonly string[],
+  reservedNames: readonly string[] = [],
+): string {
+  const query = sql.trim().replace(/;\s*$/, '').trim();
+  if (!query) throw new Error('Query is empty');
+
+  const tokens = tokenize(query);
+  const first = tokens[0];
+  if (first?.kind !== 'word' || (first.value !== 'select' && first.value !== 'with')) {
+    throw new Error('Query must start with SELECT or WITH');
+  }
+
+  const allowed = new Set(allowedTables.map((t) => t.toLowerCase()));
+  const reserved = new Set(reservedNames.map((t) => t.toLowerCase()));
+  for (let i = 0; i + 2 < tokens.length; i++) {
+    // name AS ( … ) declares a CTE.
+    if (isName(tokens[i]) && tokens[i + 1].value === 'as' && tokens[i + 2].value === '(') {
+      const name = tokens[i].value.toLowerCase();
+      if (reserved.has(name)) throw new Error(`CTE name "${tokens[i].value}" is not allowed`);
+      allowed.add(name);
+    }
+  }
+
+  const openCalls: string[] = [];
+  for (let i = 0; i < tokens.length; i++) {
+    const token = tokens[i];
+    if (token.kind === 'symbol') {
+      if (token.value === ';') throw new Error('Only one statement is allowed');
+      if (token.value === '(') openCalls.push(tokens[i - 1]?.kind === 'word' ? tokens[i - 1].value : '');
+      if (token.value === ')') {
+        // An unmatched ")" would close the subquery the caller wraps this query in.
+        if (openCalls.length === 0) throw new Error('Unbalanced parentheses');
+        openCalls.pop();
+      }
+      continue;
+    }
+    if (token.kind === 'string') continue;
+
+    if (token.kind === 'word' && FORBIDDEN_WORDS.has(token.value)) {
+      throw new Error(`"${token.value.toUpperCase()}" is not allowed in a read-only query`);
+    }
+    if (FORBIDDEN_PATTERN.test(token.value)) throw new Error(`"${token.value}" is not allowed`);
+
+    const startsFromList =
+      token.kind === 'word' &&
+      (token.value === 'join' || (token.value === 'from' && !FROM_FUNCTIONS.has(openCalls[openCalls.length - 1])));
+    if (!startsFromList) continue;
+
+    // Walk `table [AS] [alias] [, table …]`; a "(" starts a subquery, which is checked as we go.
+    let j = i + 1;
+    while (isName(tokens[j])) {
+      let table = tokens[j];
+      j++;
+      if (tokens[j]?.value === '.' && isName(tokens[j + 1])) {
+        if (table.value.toLowerCase() !== 'public') throw new Error(`Schema "${table.value}" is not allowed`);
+        table = tokens[j + 1];
+        j += 2;
+      }
+      if (tokens[j]?.value === '(') throw new Error(`Table function "${table.value}" is not allowed`);
+      if (!allowed.has(table.value.toLowerCase())) throw new Error(`Table "${table.value}" is not allowed`);
+      if (tokens[j]?.value === 'as') j++;
+      if (tokens[j]?.kind === 'quoted') j++;
+      else if (tokens[j]?.kind === 'word' && !CLAUSE_WORDS.has(tokens[j].value)) j++;
+      if (tokens[j]?.value !== ',') break;
+      j++;
+    }
+  }
+  if (openCalls.length > 0) throw new Error('Unbalanced parentheses');
+
+  return query;
+}
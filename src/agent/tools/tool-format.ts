@@ -0,0 +1,9 @@
+import type { RagDocument } from '../../rag/rag.service';
+
+/** Render retrieved chunks as numbered snippets for a ToolMessage. */
+export function formatRagResults(docs: RagDocument[], empty = 'No matching documents.'): string {
+  if (docs.length === 0) return empty;
+  return docs
+    .map((d, i) => `[${i + 1}] ${d.title} (score ${d.score.toFixed(3)}):\n${d.content}`)
+    .join('\n\n');
+}
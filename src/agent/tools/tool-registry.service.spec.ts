@@ -0,0 +1,50 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { DiscoveryModule } from '@nestjs/core';
+import { ToolRegistryService } from './tool-registry.service';
+import { OrderLookupTool } from './order-lookup.tool';
+import { RagService } from '../../rag/rag.service';
+
+describe('ToolRegistryService', () => {
+  let registry: ToolRegistryService;
+  const ragService = { findByKeyword: jest.fn() };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      imports: [DiscoveryModule],
+      providers: [
+        ToolRegistryService,
+        OrderLookupTool,
+        { provide: RagService, useValue: ragService },
+      ],
+    }).compile();
+    await module.init();
+
+    registry = module.get<ToolRegistryService>(ToolRegistryService);
+  });
+
+  it('discovers decorated tool providers', () => {
+    const [info] = registry.list();
+    expect(info.name).toBe('lookup_order');
+    expect(info.inputSchema).toMatchObject({ required: ['orderId'] });
+  });
+
+  it('validates input and calls the tool handler', async () => {
+    ragService.findByKeyword.mockResolvedValue([]);
+    const [orderTool] = registry.asLangChainTools();
+
+    await expect(orderTool.invoke({ orderId: 'ORD-1001' })).resolves.toBe(
+      'No documents mention order ORD-1001.',
+    );
+    expect(ragService.findByKeyword).toHaveBeenCalledWith('ORD-1001', undefined, {});
+    await expect(orderTool.invoke({})).rejects.toThrow();
+  });
+
+  it('passes the caller context to the tool handler', async () => {
+    ragService.findByKeyword.mockResolvedValue([]);
+    const context = { knowledgeBaseId: 'acme', access: { user: 'ana', groups: ['support'] } };
+    const [orderTool] = registry.asLangChainTools(context);
+
+    await orderTool.invoke({ orderId: 'ORD-1001' });
+    expect(ragService.findByKeyword).toHaveBeenCalledWith('ORD-1001', undefined, context);
+  });
+});
@@ -0,0 +1,52 @@
+import { Injectable, OnModuleInit } from '@nestjs/common';
+import { DiscoveryService } from '@nestjs/core';
+import { tool, type StructuredToolInterface } from '@langchain/core/tools';
+import { z } from 'zod/v4';
+import { AppLogger } from '../../common/app-logger';
+import { AgentTool, AgentToolContext, AgentToolProvider } from './agent-tool.interface';
+
+export interface AgentToolInfo {
+  name: string;
+  description: string;
+  inputSchema: Record<string, unknown>;
+}
+
+@Injectable()
+export class ToolRegistryService implements OnModuleInit {
+  private readonly appLog = new AppLogger(ToolRegistryService.name);
+  private readonly tools = new Map<string, AgentTool>();
+
+  constructor(private readonly discovery: DiscoveryService) { }
+
+  onModuleInit(): void {
+    const wrappers = this.discovery.getProviders({ metadataKey: AgentToolProvider.KEY });
+    for (const wrapper of wrappers) {
+      const instance = wrapper.instance as AgentTool | undefined;
+      if (!instance) continue;
+      if (this.tools.has(instance.name)) {
+        throw new Error(`Duplicate agent tool name: ${instance.name} (${wrapper.name})`);
+      }
+      this.tools.set(instance.name, instance);
+    }
+    this.appLog.log('Agent tools registered', { tools: [...this.tools.keys()] });
+  }
+
+  list(): AgentToolInfo[] {
+    return [...this.tools.values()].map((t) => ({
+      name: t.name,
+      description: t.description,
+      inputSchema: z.toJSONSchema(t.schema) as Record<string, unknown>,
+    }));
+  }
+
+  /** Registered tools wrapped as LangChain tools for one agent run, bound to its caller context. */
+  asLangChainTools(context: AgentToolContext = {}): StructuredToolInterface[] {
+    return [...this.tools.values()].map((t) =>
+      tool((input) => t.handle(input, context), {
+        name: t.name,
+        description: t.description,
+        schema: t.schema,
+      }),
+    );
+  }
+}
@@ -4,14 +4,30 @@ import { AgentModule } from './agent/agent.module';
 import { RagModule } from './rag/rag.module';
 import { ChatModule } from './chat/chat.module';
 import { HealthModule } from './health/health.module';
+import { PrismaModule } from './prisma/prisma.module';
+import { ModelsModule } from './models/models.module';
+import { SessionModule } from './session/session.module';
+import { DocumentsModule } from './documents/documents.module';
+import { KnowledgeBasesModule } from './knowledge-bases/knowledge-bases.module';
+import { InvoicesModule } from './invoices/invoices.module';
+import { EvalModule } from './eval/eval.module';
+import { AuthModule } from './auth/auth.module';
 
 @Module({
   imports: [
     ConfigModule.forRoot({ isGlobal: true }),
+    PrismaModule,
+    AuthModule,
+    ModelsModule,
     AgentModule,
     RagModule,
     ChatModule,
     HealthModule,
+    SessionModule,
+    DocumentsModule,
+    KnowledgeBasesModule,
+    InvoicesModule,
+    EvalModule,
   ],
 })
 export class AppModule { }
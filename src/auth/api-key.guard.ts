@@ -0,0 +1,70 @@
+import {
+  CanActivate,
+  ExecutionContext,
+  ForbiddenException,
+  HttpException,
+  HttpStatus,
+  Injectable,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import type { Response } from 'express';
+import { ApiKeysService } from './api-keys.service';
+import { IS_PUBLIC, Roles, type AuthenticatedRequest } from './auth.decorators';
+import { TokenBucketLimiter } from './token-bucket';
+
+/**
+ * Global guard: every route needs an API key (`Authorization: Bearer <key>` or `X-API-Key`)
+ * unless it is @Public(). Then checks @Roles, the key's token bucket (429 with Retry-After)
+ * and its daily quota (429).
+ */
+@Injectable()
+export class ApiKeyGuard implements CanActivate {
+  private readonly limiter = new TokenBucketLimiter();
+
+  constructor(
+    private readonly reflector: Reflector,
+    private readonly apiKeys: ApiKeysService,
+  ) { }
+
+  async canActivate(context: ExecutionContext): Promise<boolean> {
+    if (context.getType() !== 'http' || !this.apiKeys.authEnabled()) return true;
+    const targets = [context.getHandler(), context.getClass()];
+    if (this.reflector.getAllAndOverride<boolean>(IS_PUBLIC, targets)) return true;
+
+    const req = context.switchToHttp().getRequest<AuthenticatedRequest>();
+    const res = context.switchToHttp().getResponse<Response>();
+    const key = this.keyFrom(req);
+    if (!key) throw new UnauthorizedException('API key required (Authorization: Bearer <key> or X-API-Key)');
+    const principal = await this.apiKeys.authenticate(key);
+    if (!principal) throw new UnauthorizedException('Invalid or revoked API key');
+    req.apiKey = principal;
+
+    const required = this.reflector.getAllAndOverride(Roles, targets);
+    if (required?.length && !principal.roles.includes('admin') && !required.some((r) => principal.roles.includes(r))) {
+      throw new ForbiddenException(`This route needs the ${required.join(' or ')} role`);
+    }
+
+    const bucket = this.limiter.take(principal.id, {
+      perMinute: principal.rateLimitPerMinute,
+      burst: principal.rateLimitBurst,
+    });
+    if (Number.isFinite(bucket.remaining)) res.setHeader('X-RateLimit-Remaining', String(bucket.remaining));
+    if (!bucket.allowed) {
+      res.setHeader('Retry-After', String(Math.ceil(bucket.retryAfterMs / 1000)));
+      throw new HttpException('Rate limit exceeded', HttpStatus.TOO_MANY_REQUESTS);
+    }
+
+    if (!(await this.apiKeys.recordRequest(principal))) {
+      throw new HttpException(`Daily quota of ${principal.dailyQuota} requests exceeded`, HttpStatus.TOO_MANY_REQUESTS);
+    }
+    return true;
+  }
+
+  private keyFrom(req: AuthenticatedRequest): string | undefined {
+    const header = req.headers.authorization;
+    if (header?.toLowerCase().startsWith('bearer ')) return header.slice(7).trim() || undefined;
+    const apiKey = req.headers['x-api-key'];
+    return (Array.isArray(apiKey) ? apiKey[0] : apiKey)?.trim() || undefined;
+  }
+}
@@ -0,0 +1,192 @@
+import { Injectable, NotFoundException, OnModuleInit } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import type { ApiKey } from '@prisma/client';
+import { randomBytes, timingSafeEqual } from 'crypto';
+import { PrismaService } from '../prisma/prisma.service';
+import { AppLogger } from '../common/app-logger';
+import { sha256 } from '../chat/helper/hash';
+import type { ApiKeyPrincipal } from './auth.decorators';
+import { API_ROLES, type ApiRole, type CreateApiKeyDto } from './dto/create-api-key.dto';
+
+/** Verified keys are cached this long, so a revoked key stops working on other instances within it. */
+const KEY_CACHE_TTL_MS = 30000;
+/** lastUsedAt is written at most this often per key. */
+const LAST_USED_INTERVAL_MS = 60000;
+
+const errorMessage = (err: unknown) => (err instanceof Error ? err.message : String(err));
+
+/**
+ * API keys stored as SHA-256 hashes in Postgres. Keys are random (192 bits), so a fast hash is
+ * enough; the plain key is only returned by create(). ADMIN_API_KEY from env is accepted as an
+ * admin key without a row, to create the first keys.
+ */
+@Injectable()
+export class ApiKeysService implements OnModuleInit {
+  private readonly appLog = new AppLogger(ApiKeysService.name);
+  private readonly cache = new Map<string, { principal: ApiKeyPrincipal; expiresAt: number }>();
+  private readonly lastUsedWrites = new Map<string, number>();
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly prisma: PrismaService,
+  ) { }
+
+  async onModuleInit() {
+    if (!this.authEnabled()) {
+      this.appLog.warn('API authentication is disabled (API_AUTH=off): every route is open');
+      return;
+    }
+    if (this.configService.get<string>('ADMIN_API_KEY')) return;
+    try {
+      const active = await this.prisma.apiKey.count({ where: { revokedAt: null } });
+      if (active === 0) {
+        this.appLog.warn('No API keys yet: set ADMIN_API_KEY and create keys with POST /auth/keys');
+      }
+    } catch (err) {
+      this.appLog.warn('API keys not checked (database unavailable?)', { error: errorMessage(err) });
+    }
+  }
+
+  /** API_AUTH=off turns authentication off (local development only). */
+  authEnabled(): boolean {
+    return this.configService.get<string>('API_AUTH') !== 'off';
+  }
+
+  /** Returns the plain key once; only its hash is stored. */
+  async create(dto: CreateApiKeyDto) {
+    const key = `rag_${randomBytes(24).toString('base64url')}`;
+    const row = await this.prisma.apiKey.create({
+      data: {
+        name: dto.name,
+        prefix: key.slice(0, 12),
+        keyHash: sha256(key),
+        roles: [...new Set(dto.roles)],
+        user: dto.user,
+        groups: dto.groups ?? [],
+        rateLimitPerMinute: dto.rateLimitPerMinute,
+        rateLimitBurst: dto.rateLimitBurst,
+        dailyQuota: dto.dailyQuota,
+      },
+    });
+    this.appLog.log('API key created', { apiKeyId: row.id, name: row.name, roles: row.roles });
+    return { ...this.toView(row), key };
+  }
+
+  /** All keys with today's request count; hashes are never returned. */
+  async list() {
+    const [rows, usage] = await Promise.all([
+      this.prisma.apiKey.findMany({ orderBy: { createdAt: 'desc' } }),
+      this.prisma.apiKeyUsage.findMany({ where: { day: new Date(this.today()) } }),
+    ]);
+    const requestsToday = new Map(usage.map((u) => [u.apiKeyId, u.requests]));
+    return rows.map((row) => ({ ...this.toView(row), requestsToday: requestsToday.get(row.id) ?? 0 }));
+  }
+
+  async revoke(id: string) {
+    const row = await this.prisma.apiKey.findUnique({ where: { id } });
+    if (!row) throw new NotFoundException(`API key ${id} not found`);
+    const revoked = await this.prisma.apiKey.update({
+      where: { id },
+      data: { revokedAt: row.revokedAt ?? new Date() },
+    });
+    this.cache.delete(row.keyHash);
+    this.appLog.log('API key revoked', { apiKeyId: id, name: row.name });
+    return this.toView(revoked);
+  }
+
+  /** The principal for a presented key, or null if it is unknown or revoked. */
+  async authenticate(key: string): Promise<ApiKeyPrincipal | null> {
+    const hash = sha256(key);
+    const envKey = this.configService.get<string>('ADMIN_API_KEY');
+    if (envKey && timingSafeEqual(Buffer.from(sha256(envKey), 'hex'), Buffer.from(hash, 'hex'))) {
+      return this.envPrincipal(key);
+    }
+
+    const cached = this.cache.get(hash);
+    if (cached && cached.expiresAt > Date.now()) return cached.principal;
+
+    const row = await this.prisma.apiKey.findUnique({ where: { keyHash: hash } });
+    if (!row || row.revokedAt) {
+      this.cache.delete(hash);
+      return null;
+    }
+    const principal = this.toPrincipal(row);
+    this.cache.set(hash, { principal, expiresAt: Date.now() + KEY_CACHE_TTL_MS });
+    return principal;
+  }
+
+  /**
+   * Count a request against the key's daily quota. Returns false (without counting) once the
+   * quota is used up. If the database is unavailable the request is allowed.
+   */
+  async recordRequest(principal: ApiKeyPrincipal): Promise<boolean> {
+    if (principal.fromEnv) return true;
+    this.touchLastUsed(principal.id);
+    try {
+      // Atomic across instances: the row is only incremented while under the quota.
+      const rows = await this.prisma.$queryRaw<{ requests: number }[]>`
+        INSERT INTO "ApiKeyUsage" ("apiKeyId", "day", "requests")
+        VALUES (${principal.id}, ${this.today()}::date, 1)
+        ON CONFLICT ("apiKeyId", "day") DO UPDATE SET "requests" = "ApiKeyUsage"."requests" + 1
+        WHERE ${principal.dailyQuota} = 0 OR "ApiKeyUsage"."requests" < ${principal.dailyQuota}
+        RETURNING "requests"`;
+      return rows.length > 0;
+    } catch (err) {
+      this.appLog.warn('API key usage not recorded', { apiKeyId: principal.id, error: errorMessage(err) });
+      return true;
+    }
+  }
+
+  private touchLastUsed(id: string): void {
+    const now = Date.now();
+    if (now - (this.lastUsedWrites.get(id) ?? 0) < LAST_USED_INTERVAL_MS) return;
+    this.lastUsedWrites.set(id, now);
+    this.prisma.apiKey
+      .update({ where: { id }, data: { lastUsedAt: new Date(now) } })
+      .catch((err) => this.appLog.warn('API key lastUsedAt not updated', { apiKeyId: id, error: errorMessage(err) }));
+  }
+
+  private envPrincipal(key: string): ApiKeyPrincipal {
+    return {
+      id: 'env-admin',
+      name: 'ADMIN_API_KEY',
+      prefix: key.slice(0, 12),
+      roles: ['admin'],
+      groups: [],
+      ...this.limits({ rateLimitPerMinute: null, rateLimitBurst: null, dailyQuota: null }),
+      fromEnv: true,
+    };
+  }
+
+  private toPrincipal(row: ApiKey): ApiKeyPrincipal {
+    return {
+      id: row.id,
+      name: row.name,
+      prefix: row.prefix,
+      roles: row.roles.filter((r): r is ApiRole => (API_ROLES as readonly string[]).includes(r)),
+      ...(row.user ? { user: row.user } : {}),
+      groups: row.groups,
+      ...this.limits(row),
+    };
+  }
+
+  /** Per-key limits, falling back to RATE_LIMIT_PER_MINUTE, RATE_LIMIT_BURST and API_KEY_DAILY_QUOTA. */
+  private limits(row: Pick<ApiKey, 'rateLimitPerMinute' | 'rateLimitBurst' | 'dailyQuota'>) {
+    const env = (key: string, fallback: string) => parseInt(this.configService.get(key) ?? fallback, 10);
+    return {
+      rateLimitPerMinute: row.rateLimitPerMinute ?? env('RATE_LIMIT_PER_MINUTE', '60'),
+      rateLimitBurst: row.rateLimitBurst ?? env('RATE_LIMIT_BURST', '20'),
+      dailyQuota: row.dailyQuota ?? env('API_KEY_DAILY_QUOTA', '0'),
+    };
+  }
+
+  /** Current UTC day as YYYY-MM-DD. */
+  private today(): string {
+    return new Date().toISOString().slice(0, 10);
+  }
+
+  private toView(row: ApiKey) {
+    const { keyHash: _hash, ...view } = row;
+    return view;
+  }
+}
@@ -0,0 +1,33 @@
+import { Body, Controller, Delete, Get, Param, Post } from '@nestjs/common';
+import { ApiKeysService } from './api-keys.service';
+import { CurrentKey, Roles, type ApiKeyPrincipal } from './auth.decorators';
+import { CreateApiKeyDto } from './dto/create-api-key.dto';
+
+@Controller('auth')
+export class AuthController {
+  constructor(private readonly apiKeys: ApiKeysService) { }
+
+  /** The calling key: roles and limits. */
+  @Get('me')
+  me(@CurrentKey() key?: ApiKeyPrincipal) {
+    return key ?? { authenticated: false };
+  }
+
+  @Get('keys')
+  @Roles(['admin'])
+  list() {
+    return this.apiKeys.list();
+  }
+
+  @Post('keys')
+  @Roles(['admin'])
+  create(@Body() body: CreateApiKeyDto) {
+    return this.apiKeys.create(body);
+  }
+
+  @Delete('keys/:id')
+  @Roles(['admin'])
+  revoke(@Param('id') id: string) {
+    return this.apiKeys.revoke(id);
+  }
+}
@@ -0,0 +1,58 @@
+import { createParamDecorator, ExecutionContext, SetMetadata } from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import type { Request } from 'express';
+import type { AccessScope } from '../chat/helper/access-control';
+import type { ApiRole } from './dto/create-api-key.dto';
+
+/** The API key a request was authenticated with (attached by ApiKeyGuard). */
+export interface ApiKeyPrincipal {
+  id: string;
+  name: string;
+  prefix: string;
+  roles: ApiRole[];
+  /** Identity for document ACLs. */
+  user?: string;
+  groups: string[];
+  rateLimitPerMinute: number;
+  rateLimitBurst: number;
+  /** Requests per UTC day; 0 means unlimited. */
+  dailyQuota: number;
+  /** Keys from env (ADMIN_API_KEY) have no database row, so no usage is recorded. */
+  fromEnv?: boolean;
+}
+
+export type AuthenticatedRequest = Request & { apiKey?: ApiKeyPrincipal };
+
+/**
+ * Roles that may call a route (any of them; admin always may). Set on a controller or a handler,
+ * the handler wins. Routes without it accept any valid key.
+ */
+export const Roles = Reflector.createDecorator<ApiRole[]>();
+
+export const IS_PUBLIC = 'auth:public';
+
+/** Route that needs no API key (health checks). */
+export const Public = () => SetMetadata(IS_PUBLIC, true);
+
+/**
+ * Document access of a caller: admin keys, and requests without a key (API_AUTH=off), are
+ * unrestricted; other keys read public documents and those whose ACL names their user or a group.
+ */
+export function accessScopeOf(key?: ApiKeyPrincipal): AccessScope | undefined {
+  if (!key || key.roles.includes('admin')) return undefined;
+  return { user: key.user, groups: key.groups };
+}
+
+/**
+ * Owner of the sessions a caller starts, and the only sessions it may read or continue. Admin
+ * keys, and requests without a key, are unrestricted (undefined).
+ */
+export function sessionOwnerOf(key?: ApiKeyPrincipal): string | undefined {
+  if (!key || key.roles.includes('admin')) return undefined;
+  return key.id;
+}
+
+/** The caller's key; undefined when API_AUTH=off or on public routes. */
+export const CurrentKey = createParamDecorator(
+  (_data: unknown, ctx: ExecutionContext) => ctx.switchToHttp().getRequest<AuthenticatedRequest>().apiKey,
+);
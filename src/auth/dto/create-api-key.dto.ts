@@ -0,0 +1,49 @@
+import { Type } from 'class-transformer';
+import { ArrayNotEmpty, IsArray, IsIn, IsInt, IsOptional, IsString, Min } from 'class-validator';
+
+/** admin: every route, including key management. ingest: upload, ingest, reindex. query: ask, agent chat, reads. */
+export const API_ROLES = ['admin', 'ingest', 'query'] as const;
+export type ApiRole = (typeof API_ROLES)[number];
+
+export class CreateApiKeyDto {
+  /** Who or what uses the key, e.g. "support-portal"; shown in request logs. */
+  @IsString()
+  name: string;
+
+  @IsArray()
+  @ArrayNotEmpty()
+  @IsIn(API_ROLES, { each: true })
+  roles: ApiRole[];
+
+  /** User id matched against document ACLs (`acl.users`) when retrieving. */
+  @IsOptional()
+  @IsString()
+  user?: string;
+
+  /** Groups matched against document ACLs (`acl.groups`), e.g. ["support"]. */
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  groups?: string[];
+
+  /** Token bucket refill rate; defaults to RATE_LIMIT_PER_MINUTE. 0 disables rate limiting. */
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(0)
+  rateLimitPerMinute?: number;
+
+  /** Token bucket size (requests allowed at once); defaults to RATE_LIMIT_BURST. */
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  rateLimitBurst?: number;
+
+  /** Requests per UTC day; defaults to API_KEY_DAILY_QUOTA. 0 means unlimited. */
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(0)
+  dailyQuota?: number;
+}
@@ -0,0 +1,30 @@
+import { Injectable, NestMiddleware } from '@nestjs/common';
+import type { NextFunction, Response } from 'express';
+import { AppLogger } from '../common/app-logger';
+import type { AuthenticatedRequest } from './auth.decorators';
+
+/**
+ * One log line per HTTP request once the response is sent, attributed to the API key the guard
+ * attached. The query string is left out (GET /chat/ask/stream carries the question there).
+ */
+@Injectable()
+export class RequestLoggerMiddleware implements NestMiddleware {
+  private readonly appLog = new AppLogger('Http');
+
+  use(req: AuthenticatedRequest, res: Response, next: NextFunction) {
+    const started = Date.now();
+    res.on('finish', () => {
+      const entry = {
+        method: req.method,
+        path: req.originalUrl.split('?')[0],
+        status: res.statusCode,
+        durationMs: Date.now() - started,
+        apiKeyId: req.apiKey?.id ?? null,
+        apiKeyName: req.apiKey?.name ?? null,
+      };
+      if (res.statusCode >= 500) this.appLog.warn('Request failed', entry);
+      else this.appLog.log('Request', entry);
+    });
+    next();
+  }
+}
@@ -0,0 +1,24 @@
+import { TokenBucketLimiter } from './token-bucket';
+
+describe('TokenBucketLimiter', () => {
+  const limits = { perMinute: 60, burst: 2 };
+
+  it('allows a burst, then refills one token per 60 / perMinute seconds', () => {
+    const limiter = new TokenBucketLimiter();
+
+    expect(limiter.take('k', limits, 0)).toEqual({ allowed: true, remaining: 1, retryAfterMs: 0 });
+    expect(limiter.take('k', limits, 0).allowed).toBe(true);
+    expect(limiter.take('k', limits, 250)).toEqual({ allowed: false, remaining: 0, retryAfterMs: 750 });
+    expect(limiter.take('k', limits, 1000).allowed).toBe(true);
+    expect(limiter.take('other', limits, 1000).allowed).toBe(true);
+  });
+
+  it('never holds more than burst tokens and skips keys without a limit', () => {
+    const limiter = new TokenBucketLimiter();
+    limiter.take('k', limits, 0);
+
+    expect(limiter.take('k', limits, 3600000).remaining).toBe(1);
+    expect(limiter.take('free', { perMinute: 0, burst: 1 }, 0).allowed).toBe(true);
+    expect(limiter.take('free', { perMinute: 0, burst: 1 }, 0).allowed).toBe(true);
+  });
+});
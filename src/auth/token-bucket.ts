@@ -0,0 +1,45 @@
+export interface BucketLimits {
+  /** Tokens added per minute; 0 means no limit. */
+  perMinute: number;
+  /** Bucket size: requests allowed in a burst. */
+  burst: number;
+}
+
+export interface TakeResult {
+  allowed: boolean;
+  /** Whole tokens left after this request. */
+  remaining: number;
+  /** When not allowed: time until the next token. */
+  retryAfterMs: number;
+}
+
+/**
+ * In-memory token buckets, one per key. Each bucket starts full, refills continuously at
+ * `perMinute` and holds at most `burst` tokens; a request takes one token. State is per process,
+ * so with several API instances each enforces the limit on its own share of traffic.
+ */
+export class TokenBucketLimiter {
+  private readonly buckets = new Map<string, { tokens: number; updatedAt: number }>();
+
+  take(key: string, limits: BucketLimits, now = Date.now()): TakeResult {
+    if (limits.perMinute <= 0) return { allowed: true, remaining: Infinity, retryAfterMs: 0 };
+    const burst = Math.max(1, limits.burst);
+    const perMs = limits.perMinute / 60000;
+
+    const bucket = this.buckets.get(key) ?? { tokens: burst, updatedAt: now };
+    bucket.tokens = Math.min(burst, bucket.tokens + (now - bucket.updatedAt) * perMs);
+    bucket.updatedAt = now;
+    this.buckets.set(key, bucket);
+
+    if (bucket.tokens < 1) {
+      return { allowed: false, remaining: 0, retryAfterMs: Math.ceil((1 - bucket.tokens) / perMs) };
+    }
+    bucket.tokens -= 1;
+    return { allowed: true, remaining: Math.floor(bucket.tokens), retryAfterMs: 0 };
+  }
+
+  /** Forget a key's bucket (e.g. after it is revoked). */
+  reset(key: string): void {
+    this.buckets.delete(key);
+  }
+}
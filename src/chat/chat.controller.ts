@@ -1,13 +1,25 @@
-import { Controller, OnModuleInit, Post, Body, UploadedFiles, UseInterceptors } from '@nestjs/common';
-import { ChatService } from './chat.service';
+import { BadRequestException, Controller, OnModuleInit, Get, Post, Body, Query, Res, UploadedFiles, UseInterceptors } from '@nestjs/common';
+import type { Response } from 'express';
+import { ChatService, toIngestFile } from './chat.service';
+import { IngestJobsService } from './ingest-jobs.service';
 import { IngestBodyDto } from './dto/ingest.dto';
+import { AskDto } from './dto/ask.dto';
 import { diskStorage } from 'multer';
 import { extname } from 'path';
 import { FilesInterceptor } from '@nestjs/platform-express';
+import { writeSse } from '../common/sse';
+import { isSupportedFile, SUPPORTED_EXTENSIONS } from './helper/loader.registry';
+import { CHUNKING_PROFILES, isChunkingProfile } from './helper/chunking';
+import { validateAcl, type DocumentAcl } from './helper/access-control';
+import { accessScopeOf, CurrentKey, Roles, sessionOwnerOf, type ApiKeyPrincipal } from '../auth/auth.decorators';
 
+@Roles(['query'])
 @Controller('chat')
 export class ChatController implements OnModuleInit {
-  constructor(private readonly chatService: ChatService) { }
+  constructor(
+    private readonly chatService: ChatService,
+    private readonly ingestJobs: IngestJobsService,
+  ) { }
 
   async onModuleInit() {
     await this.chatService.init();
@@ -15,12 +27,14 @@ export class ChatController implements OnModuleInit {
   }
 
   @Post('ingest')
+  @Roles(['ingest'])
   ingest(@Body() body: IngestBodyDto) {
     return this.chatService.ingest(body || {});
   }
 
 
   @Post('upload')
+  @Roles(['ingest'])
   @UseInterceptors(
     FilesInterceptor('files', 10, {
       storage: diskStorage({
@@ -33,26 +47,97 @@ export class ChatController implements OnModuleInit {
         },
       }),
       fileFilter: (req, file, callback) => {
-        const allowed = [
-          'application/pdf',
-          'application/msword',
-          'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
-        ];
-        if (allowed.includes(file.mimetype) || /\.(pdf|docx?)$/i.test(file.originalname)) {
+        if (isSupportedFile(file.originalname, file.mimetype)) {
           callback(null, true);
         } else {
-          callback(new Error('Only PDF and DOC/DOCX files are allowed'), false);
+          callback(
+            new BadRequestException(`Unsupported file type. Allowed: ${SUPPORTED_EXTENSIONS.join(', ')}`),
+            false,
+          );
         }
       },
     }),
   )
-  async uploadAndIngest(@UploadedFiles() files: Express.Multer.File[]) {
-    return this.chatService.handleFileUpload(files);
+  async uploadAndIngest(
+    @UploadedFiles() files: Express.Multer.File[],
+    @Body('knowledgeBaseId') knowledgeBaseId?: string,
+    @Body('async') async?: string,
+    @Body('chunking') chunking?: string,
+    @Body('acl') acl?: string,
+    @CurrentKey() key?: ApiKeyPrincipal,
+  ) {
+    if (chunking && !isChunkingProfile(chunking)) {
+      throw new BadRequestException(`chunking must be one of: ${CHUNKING_PROFILES.join(', ')}`);
+    }
+    const profile = isChunkingProfile(chunking) ? chunking : undefined;
+    const documentAcl = acl ? this.parseAcl(acl) : undefined;
+    // async=true: queue the files and return the job right away (poll GET /ingest/jobs/:id).
+    if ((async === 'true' || async === '1') && files?.length) {
+      const job = await this.ingestJobs.enqueue(
+        files.map((file) => toIngestFile(file, key?.id)),
+        knowledgeBaseId || undefined,
+        profile,
+        documentAcl,
+      );
+      return { success: true, message: 'Ingest job queued', jobId: job.id, job };
+    }
+    return this.chatService.handleFileUpload(files, knowledgeBaseId || undefined, profile, documentAcl, key?.id);
+  }
+
+  /** Multipart `acl` field: JSON such as {"groups":["finance"]}. */
+  private parseAcl(value: string): DocumentAcl {
+    let acl: unknown;
+    try {
+      acl = JSON.parse(value);
+    } catch {
+      throw new BadRequestException('acl must be JSON, e.g. {"groups":["finance"]}');
+    }
+    const error = validateAcl(acl);
+    if (error) throw new BadRequestException(error);
+    return acl as DocumentAcl;
   }
 
   @Post('ask')
-  async ask(@Body() body: { question: string }) {
-    return this.chatService.query(body?.question || '');
+  async ask(@Body() body: AskDto, @CurrentKey() key?: ApiKeyPrincipal) {
+    return this.chatService.query(body?.question || '', {
+      sessionId: body?.sessionId,
+      mode: body?.mode,
+      expansion: body?.expansion,
+      knowledgeBaseId: body?.knowledgeBaseId,
+      filter: body?.filter,
+      access: accessScopeOf(key),
+      sessionOwner: sessionOwnerOf(key),
+      model: body?.model,
+    });
+  }
+
+  /** SSE: `token` events with answer deltas, then `done` with sources and contextCount. */
+  @Get('ask/stream')
+  async askStreamGet(@Query() query: AskDto, @Res() res: Response, @CurrentKey() key?: ApiKeyPrincipal) {
+    await writeSse(res, this.chatService.queryStream(query?.question || '', {
+      sessionId: query?.sessionId,
+      mode: query?.mode,
+      expansion: query?.expansion,
+      knowledgeBaseId: query?.knowledgeBaseId,
+      filter: query?.filter,
+      access: accessScopeOf(key),
+      sessionOwner: sessionOwnerOf(key),
+      model: query?.model,
+    }));
+  }
+
+  @Post('ask/stream')
+  async askStream(@Body() body: AskDto, @Res() res: Response, @CurrentKey() key?: ApiKeyPrincipal) {
+    await writeSse(res, this.chatService.queryStream(body?.question || '', {
+      sessionId: body?.sessionId,
+      mode: body?.mode,
+      expansion: body?.expansion,
+      knowledgeBaseId: body?.knowledgeBaseId,
+      filter: body?.filter,
+      access: accessScopeOf(key),
+      sessionOwner: sessionOwnerOf(key),
+      model: body?.model,
+    }));
   }
 
 }
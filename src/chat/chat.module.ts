@@ -1,9 +1,16 @@
 import { Module } from '@nestjs/common';
 import { ChatService } from './chat.service';
 import { ChatController } from './chat.controller';
+import { IngestJobsService } from './ingest-jobs.service';
+import { IngestJobsController } from './ingest-jobs.controller';
+import { RagModule } from '../rag/rag.module';
+import { SessionModule } from '../session/session.module';
+import { InvoicesModule } from '../invoices/invoices.module';
 
 @Module({
-  providers: [ChatService],
-  controllers: [ChatController]
+  imports: [RagModule, SessionModule, InvoicesModule],
+  providers: [ChatService, IngestJobsService],
+  controllers: [ChatController, IngestJobsController],
+  exports: [ChatService],
 })
 export class ChatModule {}
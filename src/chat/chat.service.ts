@@ -1,62 +1,239 @@
-import { Injectable } from '@nestjs/common';
+import { Injectable, NotFoundException } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
-import { ChatOllama, OllamaEmbeddings } from '@langchain/ollama';
 import { MemoryVectorStore } from 'langchain/vectorstores/memory';
 import { QdrantVectorStore } from '@langchain/qdrant';
 import type { VectorStore } from '@langchain/core/vectorstores';
+import type { BaseChatModel } from '@langchain/core/language_models/chat_models';
+import type { Embeddings } from '@langchain/core/embeddings';
 import { IngestBodyDto } from './dto/ingest.dto';
+import {
+  QUERY_EXPANSIONS,
+  RETRIEVAL_MODES,
+  type QueryExpansion,
+  type RetrievalMode,
+} from './dto/ask.dto';
 import { Document } from '@langchain/core/documents';
-import { loadPdfAsDocuments } from './helper/pdf.loader';
-import { RecursiveCharacterTextSplitter } from '@langchain/textsplitters';
+import { loadFileAsDocuments } from './helper/loader.registry';
+import { sha256 } from './helper/hash';
+import { buildCitations, type Citation } from './helper/citations';
+import { Bm25Index } from './helper/bm25';
+import { reciprocalRankFusion } from './helper/rank-fusion';
+import { isChunkingProfile, splitWithProfile, type ChunkingProfile } from './helper/chunking';
+import {
+  toMetadataPredicate,
+  toQdrantFilter,
+  validateMetadataFilter,
+  type MetadataFilter,
+  type QdrantFilter,
+} from './helper/metadata-filter';
+import {
+  ACCESS_FIELD,
+  aclEntries,
+  toAccessPredicate,
+  toQdrantAccessCondition,
+  validateAcl,
+  type AccessScope,
+  type DocumentAcl,
+} from './helper/access-control';
+import {
+  CrossEncoderReranker,
+  LlmReranker,
+  rerankChunks,
+  type RankedChunk,
+  type Reranker,
+} from './helper/rerank';
+import {
+  rewriteQueryForClaims,
+  verifyGrounding,
+  withCorrectionRequest,
+  type GroundingReport,
+} from './helper/grounding';
+import { expandQuery, type ExpandedQuery } from './helper/query-expansion';
 import { createStuffDocumentsChain } from 'langchain/chains/combine_documents';
 import { StringOutputParser } from '@langchain/core/output_parsers';
 import { ChatPromptTemplate } from '@langchain/core/prompts';
-import { resolve } from 'path';
+import type { RunnableSequence } from '@langchain/core/runnables';
+import { basename, isAbsolute, relative, resolve, sep } from 'path';
+import { existsSync, realpathSync } from 'fs';
+import { randomUUID } from 'crypto';
 import { AppLogger } from '../common/app-logger';
+import { DEFAULT_KNOWLEDGE_BASE, RagService } from '../rag/rag.service';
+import { SessionService } from '../session/session.service';
+import { InvoicesService } from '../invoices/invoices.service';
+import { condenseQuestion } from '../session/condense-question';
+import { ModelProviderService, type ModelRef, type ModelRun } from '../models/model-provider.service';
+
+export interface QueryOptions {
+  /** Conversation to continue; its history is used to condense follow-up questions. */
+  sessionId?: string;
+  /** API key the session must belong to (see sessionOwnerOf); unset for unrestricted callers. */
+  sessionOwner?: string;
+  /** vector, keyword (BM25) or hybrid (both, merged by reciprocal rank fusion). */
+  mode?: RetrievalMode;
+  /** none, rewrite, multi-query or hyde; defaults to RAG_QUERY_EXPANSION (see expandQuery()). */
+  expansion?: QueryExpansion;
+  /** Knowledge base to search; defaults to "default". */
+  knowledgeBaseId?: string;
+  /** Restrict retrieval to chunks whose metadata matches (see MetadataFilter). */
+  filter?: MetadataFilter;
+  /**
+   * Caller's identity for document ACLs; applied to every search on top of `filter` and cannot be
+   * lifted by it. Omitted for unrestricted callers.
+   */
+  access?: AccessScope;
+  /** Chat model for this request, `"provider:model"` or `"model"` (see ModelProviderService). */
+  model?: string;
+  /** Return the chunks given to the model as `context` (used by the evaluation harness). */
+  includeContext?: boolean;
+}
+
+/** A file to ingest: where it is stored and the filename the user uploaded. */
+export interface IngestFile {
+  path: string;
+  filename: string;
+  /** Upload MIME type; picks the loader together with the extension. */
+  mimeType?: string;
+  /**
+   * Identity of the file across re-ingests (full path for pdfPaths, uploader and filename for
+   * uploads). New content under the same id replaces the old document; without one a file with
+   * new content is always added as a new document.
+   */
+  sourceId?: string;
+}
+
+/** One source to ingest: its parts (PDF pages) and the identity that lets a re-ingest replace it. */
+interface IngestSource {
+  parts: Document[];
+  sourceKey?: string;
+}
+
+export interface IndexedDocument {
+  /** Registry id (Document.id); also stored as `documentId` in chunk metadata. */
+  id: string;
+  filename?: string;
+  source?: string;
+  /**
+   * added: new source; replaced: same source with changed content (old vectors dropped);
+   * skipped: identical content is already indexed (no chunks written).
+   */
+  status: 'added' | 'replaced' | 'skipped';
+  chunkCount: number;
+  /** False when the Postgres registry could not be written. */
+  registered: boolean;
+}
+
+export interface QueryResult {
+  success: boolean;
+  answer: string;
+  /** Retrieved chunks the answer is based on, grouped per file page. */
+  citations: Citation[];
+  contextCount?: number;
+  message?: string;
+  sessionId?: string;
+  standaloneQuestion?: string;
+  /** Present when a reranker ran: how many candidates it scored and how many were kept. */
+  rerank?: { reranker: string; candidates: number; kept: number };
+  /** Present when the question was expanded: the queries retrieval actually ran. */
+  queryExpansion?: ExpandedQuery;
+  /** Chat model that generated the answer; `fallback` is true when the first choice failed. */
+  answeredBy?: ModelRef & { fallback: boolean };
+  /** Share of answer sentences the retrieved context supports (0–1), when the grounding check ran. */
+  groundedness?: number;
+  /** Answer sentences the grounding check found no support for. */
+  unsupportedSentences?: string[];
+  /** Answers regenerated because the previous one scored below GROUNDING_MIN_SCORE. */
+  corrections?: number;
+  /** With `includeContext`: the chunks the answer was generated from, best first. */
+  context?: { content: string; metadata: Record<string, unknown> }[];
+}
+
+/** Events of queryStream(): answer tokens, then a final summary without the answer text. */
+export type QueryStreamEvent =
+  | { type: 'token'; data: string }
+  | { type: 'done'; data: Omit<QueryResult, 'answer'> };
+
+/** Vector store and keyword index of one knowledge base. */
+interface KnowledgeBaseStore {
+  knowledgeBaseId: string;
+  vectorStore: VectorStore;
+  /** BM25 index over the same chunks as the vector store, for exact tokens (IDs, SKUs). */
+  keywordIndex: Bm25Index;
+}
+
+interface PreparedQuery {
+  question: string;
+  sessionId?: string;
+  sessionOwner?: string;
+  knowledgeBaseId: string;
+  standaloneQuestion: string;
+  contextDocs: Document[];
+  ranked: RankedChunk[];
+  mode: RetrievalMode;
+  filter?: MetadataFilter;
+  access?: AccessScope;
+  expanded: ExpandedQuery;
+  rerank?: QueryResult['rerank'];
+  /** Per-request model override, tried before LLM_FALLBACK_MODELS. */
+  model?: string;
+  includeContext?: boolean;
+  prompt: ChatPromptTemplate;
+}
+
+/**
+ * Ingest entry for an upload. Temp paths differ per upload, so an upload is identified by its
+ * uploader (API key id) and filename; anonymous uploads (API_AUTH=off) never replace a document.
+ */
+export function toIngestFile(file: Express.Multer.File, uploadedBy?: string): IngestFile {
+  return {
+    path: resolve(file.path),
+    filename: file.originalname,
+    mimeType: file.mimetype,
+    sourceId: uploadedBy ? `${uploadedBy}:${file.originalname}` : undefined,
+  };
+}
+
+/** Full text of a source loaded in parts (e.g. PDF pages). */
+function joinParts(parts: Document[]): string {
+  return parts.map((p) => p.pageContent).join('\n\n');
+}
 
 @Injectable()
 export class ChatService {
   private readonly appLog = new AppLogger(ChatService.name);
-  private llm!: ChatOllama;
-  private embeddings!: OllamaEmbeddings;
-  private vectorStore!: VectorStore;
+  private embeddings!: Embeddings;
+  /** One store per knowledge base, created on first use; Qdrant collections or memory stores. */
+  private readonly stores = new Map<string, KnowledgeBaseStore>();
   private vectorStoreKind: 'memory' | 'qdrant' = 'memory';
+  private qdrantUrl?: string;
+  /** Optional second-stage scorer over over-fetched candidates (RERANK_PROVIDER). */
+  private reranker?: Reranker;
   /** For debug: total RAG queries and successful (had context + answer). */
   private ragQueriesTotal = 0;
   private ragQueriesSuccess = 0;
 
-  constructor(private readonly configService: ConfigService) {}
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly ragService: RagService,
+    private readonly sessionService: SessionService,
+    private readonly models: ModelProviderService,
+    private readonly invoices: InvoicesService,
+  ) {}
 
   /** Ensures LLM, embeddings, and vector store are initialized (e.g. before first ingest/query). */
   private async ensureInit(): Promise<void> {
-    if (this.vectorStore != null) return;
+    if (this.stores.has(DEFAULT_KNOWLEDGE_BASE)) return;
     await this.init();
   }
 
   async init(): Promise<void> {
-    // LLM via Ollama (local). Ensure: 1) Ollama is running (e.g. ollama serve).
+    // Chat and embedding models come from LLM_PROVIDER / EMBEDDINGS_PROVIDER (default Ollama).
+    // With Ollama ensure: 1) Ollama is running (e.g. ollama serve).
     // 2) Model is pulled: ollama pull llama3.2:3b (or ollama list to see names).
-    const ollamaBaseUrl =
-      this.configService.get<string>('OLLAMA_BASE_URL') ?? 'http://localhost:11434';
-    const chatModel =
-      this.configService.get<string>('CHAT_OLLAMA_MODEL') ?? 'llama3.2:3b';
-    this.llm = new ChatOllama({
-      model: chatModel,
-      baseUrl: ollamaBaseUrl,
-      temperature: 0,
-    });
+    this.reranker = this.createReranker();
+    this.embeddings = this.models.getEmbeddings();
 
-
-    //embeddings via ollama (share same baseUrl; model overridable via env)
-    const embeddingsModel =
-      this.configService.get<string>('EMBEDDINGS_OLLAMA_MODEL') ??
-      'mxbai-embed-large';
-    this.embeddings = new OllamaEmbeddings({
-      model: embeddingsModel,
-      baseUrl: ollamaBaseUrl,
-    });
-
-    // Vector store: Qdrant when QDRANT_URL is set, otherwise Memory as fallback
+    // Vector store: Qdrant when QDRANT_URL is set, otherwise Memory as fallback.
+    // QDRANT_COLLECTION backs the default knowledge base; others get their own collection.
     const qdrantUrl = this.configService.get<string>('QDRANT_URL');
     const collectionName =
       this.configService.get<string>('QDRANT_COLLECTION') ?? 'rag_docs';
@@ -66,11 +243,9 @@ export class ChatService {
       const ready = await this.waitForQdrant(url);
       if (ready) {
         try {
-          this.vectorStore = new QdrantVectorStore(this.embeddings, {
-            url,
-            collectionName,
-          });
+          this.qdrantUrl = url;
           this.vectorStoreKind = 'qdrant';
+          this.stores.set(DEFAULT_KNOWLEDGE_BASE, this.createStore(DEFAULT_KNOWLEDGE_BASE, collectionName));
           this.appLog.log('Vector store: Qdrant (data persists across API restarts)', {
             storage: 'qdrant',
             url,
@@ -89,13 +264,129 @@ export class ChatService {
         );
       }
     } else {
-      this.vectorStore = new MemoryVectorStore(this.embeddings);
       this.vectorStoreKind = 'memory';
       this.appLog.warn(
         'Vector store: Memory. Data is lost on API restart. Set QDRANT_URL for persistence.',
         { storage: 'memory' },
       );
     }
+
+    const defaultStore =
+      this.stores.get(DEFAULT_KNOWLEDGE_BASE) ??
+      this.createStore(DEFAULT_KNOWLEDGE_BASE, collectionName);
+    if (this.vectorStoreKind === 'memory') {
+      await this.markMemoryDocumentsStale();
+    } else {
+      await this.loadKeywordIndex(defaultStore);
+    }
+    this.stores.set(DEFAULT_KNOWLEDGE_BASE, defaultStore);
+  }
+
+  private createStore(knowledgeBaseId: string, collectionName: string): KnowledgeBaseStore {
+    const vectorStore =
+      this.vectorStoreKind === 'qdrant' && this.qdrantUrl
+        ? new QdrantVectorStore(this.embeddings, { url: this.qdrantUrl, collectionName })
+        : new MemoryVectorStore(this.embeddings);
+    return { knowledgeBaseId, vectorStore, keywordIndex: new Bm25Index() };
+  }
+
+  /** Store of a knowledge base, opened on first use. Unknown ids are a 404. */
+  private async getStore(knowledgeBaseId = DEFAULT_KNOWLEDGE_BASE): Promise<KnowledgeBaseStore> {
+    await this.ensureInit();
+    const existing = this.stores.get(knowledgeBaseId);
+    if (existing) return existing;
+
+    const knowledgeBase = await this.ragService.getKnowledgeBase(knowledgeBaseId);
+    if (!knowledgeBase) {
+      throw new NotFoundException(`Knowledge base ${knowledgeBaseId} not found`);
+    }
+    const store = this.createStore(knowledgeBaseId, knowledgeBase.collection);
+    if (this.vectorStoreKind === 'qdrant') await this.loadKeywordIndex(store);
+    this.stores.set(knowledgeBaseId, store);
+    return store;
+  }
+
+  /**
+   * Close a knowledge base's store and drop its Qdrant collection. Memory stores are simply
+   * released. Registry rows are removed by the caller.
+   */
+  async dropKnowledgeBaseStore(knowledgeBase: { id: string; collection: string }): Promise<void> {
+    await this.ensureInit();
+    const store =
+      this.stores.get(knowledgeBase.id) ?? this.createStore(knowledgeBase.id, knowledgeBase.collection);
+    this.stores.delete(knowledgeBase.id);
+    if (store.vectorStore instanceof QdrantVectorStore) {
+      try {
+        await store.vectorStore.client.deleteCollection(knowledgeBase.collection);
+      } catch (err) {
+        this.appLog.warn('Qdrant collection not deleted', {
+          knowledgeBaseId: knowledgeBase.id,
+          collection: knowledgeBase.collection,
+          error: err instanceof Error ? err.message : String(err),
+        });
+      }
+    }
+  }
+
+  /** The keyword index lives in process memory; refill it from the registry's stored chunks. */
+  private async loadKeywordIndex(store: KnowledgeBaseStore): Promise<void> {
+    try {
+      const rows = await this.ragService.listChunks(this.vectorStoreKind, store.knowledgeBaseId);
+      store.keywordIndex.add(
+        rows.map(
+          (row) =>
+            new Document({
+              pageContent: row.content,
+              metadata: (row.metadata ?? {}) as Record<string, unknown>,
+            }),
+        ),
+      );
+      this.appLog.log('Keyword index loaded from registry', {
+        knowledgeBaseId: store.knowledgeBaseId,
+        chunks: store.keywordIndex.size,
+      });
+    } catch (err) {
+      this.appLog.warn('Keyword index not loaded; keyword retrieval only covers new ingests', {
+        knowledgeBaseId: store.knowledgeBaseId,
+        error: err instanceof Error ? err.message : String(err),
+      });
+    }
+  }
+
+  /** Registry entries from a previous process lost their in-memory vectors; flag them for reindex. */
+  private async markMemoryDocumentsStale(): Promise<void> {
+    try {
+      const stale = await this.ragService.markStale('memory');
+      if (stale > 0) {
+        this.appLog.warn('Registered documents need reindexing (memory store was reset)', {
+          stale,
+          hint: 'POST /documents/:id/reindex or re-upload them.',
+        });
+      }
+    } catch {
+      // Registry unavailable (Postgres down); nothing to flag.
+    }
+  }
+
+  /**
+   * RERANK_PROVIDER: none (default), llm (relevance prompt through the chat model) or
+   * cross-encoder (local reranker server at RERANK_URL, optional RERANK_MODEL).
+   */
+  private createReranker(): Reranker | undefined {
+    const provider = this.configService.get<string>('RERANK_PROVIDER') ?? 'none';
+    if (provider === 'llm') {
+      return new LlmReranker((model, call) => this.models.runWithFallback(model, call));
+    }
+    if (provider === 'cross-encoder') {
+      const url = this.configService.get<string>('RERANK_URL');
+      if (url?.trim()) {
+        return new CrossEncoderReranker(url.trim(), this.configService.get<string>('RERANK_MODEL'));
+      }
+      this.appLog.warn('RERANK_PROVIDER=cross-encoder requires RERANK_URL; reranking disabled');
+    } else if (provider !== 'none') {
+      this.appLog.warn('Unknown RERANK_PROVIDER; reranking disabled', { provider });
+    }
+    return undefined;
   }
 
   /** Wait for Qdrant to be reachable (retries so API can start after Qdrant). */
@@ -121,7 +412,8 @@ export class ChatService {
   }
 
   private useMemoryFallback(reason: string, logMessage: string): void {
-    this.vectorStore = new MemoryVectorStore(this.embeddings);
+    this.stores.delete(DEFAULT_KNOWLEDGE_BASE);
+    this.qdrantUrl = undefined;
     this.vectorStoreKind = 'memory';
     this.appLog.warn(logMessage, {
       storage: 'memory',
@@ -130,24 +422,81 @@ export class ChatService {
     });
   }
 
-  async ingest(body: IngestBodyDto) {
-    await this.ensureInit();
+  /**
+   * pdfPaths resolved inside INGEST_PATHS_DIR (relative paths are taken from there, symlinks are
+   * followed). Any path outside it, or any path at all while the setting is unset, is an error.
+   */
+  private resolveIngestPaths(paths: string[]): { paths: string[] } | { error: string } {
+    if (paths.length === 0) return { paths: [] };
+    const dir = this.configService.get<string>('INGEST_PATHS_DIR')?.trim();
+    if (!dir) return { error: 'pdfPaths is disabled; set INGEST_PATHS_DIR to the directory it may read' };
+    const root = existsSync(dir) ? realpathSync(dir) : resolve(dir);
+    const resolved: string[] = [];
+    for (const path of paths) {
+      const full = resolve(root, path);
+      const real = existsSync(full) ? realpathSync(full) : full;
+      const rel = relative(root, real);
+      if (!rel || rel === '..' || rel.startsWith(`..${sep}`) || isAbsolute(rel)) {
+        return { error: `pdfPaths: ${path} is outside INGEST_PATHS_DIR` };
+      }
+      resolved.push(real);
+    }
+    return { paths: resolved };
+  }
 
-    const textDocs: Document[] = (body.docs || []).map(
-      (d) =>
-        new Document({
-          pageContent: d.content,
-          metadata: { source: d.meta?.source ?? 'inline', ...d.meta },
-        }),
-    );
+  async ingest(body: IngestBodyDto, files: IngestFile[] = []) {
+    const aclError = [body.acl, ...(body.docs ?? []).map((d) => d.meta?.acl)]
+      .filter((acl) => acl !== undefined)
+      .map((acl) => validateAcl(acl))
+      .find(Boolean);
+    if (aclError) {
+      return { success: false, message: `Invalid ACL: ${aclError}`, chunksAdded: 0 };
+    }
+    const serverPaths = this.resolveIngestPaths(body.pdfPaths ?? []);
+    if ('error' in serverPaths) {
+      return { success: false, message: serverPaths.error, chunksAdded: 0 };
+    }
+    const store = await this.getStore(body.knowledgeBaseId);
+
+    // One entry per source; files may load as several parts (PDF pages).
+    // Inline docs are identified by the caller's meta.source.
+    const textDocs: IngestSource[] = (body.docs || []).map((d) => {
+      const source: string = d.meta?.source ?? 'inline';
+      return {
+        parts: [new Document({ pageContent: d.content, metadata: { source, ...d.meta } })],
+        sourceKey: source !== 'inline' ? `source:${source}` : undefined,
+      };
+    });
 
-    const pdfDocs: Document[] = [];
-    for (const p of body.pdfPaths || []) {
-      const docs = await loadPdfAsDocuments(p);
-      pdfDocs.push(...docs);
+    // pdfPaths keeps its name for compatibility but accepts any supported file type.
+    const ingestFiles: IngestFile[] = [
+      ...serverPaths.paths.map((p) => ({ path: p, filename: basename(p), sourceId: p })),
+      ...files,
+    ];
+    const fileDocs: IngestSource[] = [];
+    for (const file of ingestFiles) {
+      const parts = await loadFileAsDocuments(file.path, file);
+      for (const part of parts) {
+        part.metadata = { ...part.metadata, filename: file.filename };
+      }
+      if (parts.length > 0) {
+        fileDocs.push({ parts, sourceKey: file.sourceId ? `file:${file.sourceId}` : undefined });
+      }
     }
 
-    const allDocs = [...textDocs, ...pdfDocs];
+    const allDocs = [...textDocs, ...fileDocs];
+    for (const { parts } of allDocs) {
+      const chunking = body.chunking ?? this.chunkingProfileFor(parts[0].metadata?.fileType);
+      const acl = (parts[0].metadata?.acl as DocumentAcl | undefined) ?? body.acl;
+      for (const part of parts) {
+        const { [ACCESS_FIELD]: _access, ...metadata } = part.metadata ?? {};
+        part.metadata = {
+          ...metadata,
+          chunking,
+          ...(acl ? { acl, [ACCESS_FIELD]: aclEntries(acl) } : {}),
+        };
+      }
+    }
     if (allDocs.length === 0) {
       return {
         success: false,
@@ -156,39 +505,282 @@ export class ChatService {
       };
     }
 
-    for (const doc of allDocs) {
-      this.appLog.debug('Extracted PDF text (first 500 chars)', {
-        source: doc.metadata?.source,
-        textLength: doc.pageContent.length,
-        preview: doc.pageContent.slice(0, 500),
+    for (const { parts } of allDocs) {
+      const text = joinParts(parts);
+      this.appLog.debug('Extracted text (first 500 chars)', {
+        source: parts[0].metadata?.source,
+        fileType: parts[0].metadata?.fileType,
+        parts: parts.length,
+        textLength: text.length,
+        preview: text.slice(0, 500),
       });
     }
 
-    const splitter = new RecursiveCharacterTextSplitter({
-      chunkSize: 500,
-      chunkOverlap: 80,
-      separators: ['\n\n', '\n', ' ', ''],
-    });
+    const documents: IndexedDocument[] = [];
+    for (const { parts, sourceKey } of allDocs) {
+      documents.push(await this.ingestDocument(parts, store, sourceKey));
+    }
+    const chunksAdded = documents.reduce((sum, d) => sum + d.chunkCount, 0);
 
-    const splitDocs = await splitter.splitDocuments(allDocs);
-    await this.vectorStore.addDocuments(splitDocs);
+    // Structured invoice records are extracted in the background from new or changed documents.
+    this.invoices.scheduleExtraction(
+      documents.filter((d) => d.status !== 'skipped' && d.registered).map((d) => d.id),
+    );
+    const count = (status: IndexedDocument['status']) =>
+      documents.filter((d) => d.status === status).length;
 
     this.appLog.log('Ingest complete', {
       storage: this.vectorStoreKind,
-      chunksAdded: splitDocs.length,
+      knowledgeBaseId: store.knowledgeBaseId,
+      chunksAdded,
       docsProcessed: allDocs.length,
+      added: count('added'),
+      skipped: count('skipped'),
+      replaced: count('replaced'),
+      registered: documents.filter((d) => d.registered).length,
     });
 
     return {
       success: true,
       message: 'Documents ingested',
-      chunksAdded: splitDocs.length,
+      knowledgeBaseId: store.knowledgeBaseId,
+      chunksAdded,
       documentsProcessed: allDocs.length,
-      pdfsProcessed: (body.pdfPaths || []).length,
+      pdfsProcessed: ingestFiles.length,
+      added: count('added'),
+      skipped: count('skipped'),
+      replaced: count('replaced'),
+      documents,
     };
   }
 
-  async handleFileUpload(files: Express.Multer.File[]) {
+  /**
+   * Profile for a source type: CHUNKING_PROFILES_BY_TYPE (`fileType:profile` pairs, default
+   * `markdown:markdown,csv:token`), else CHUNKING_PROFILE (default `recursive`).
+   */
+  private chunkingProfileFor(fileType?: unknown): ChunkingProfile {
+    const byType = (this.configService.get<string>('CHUNKING_PROFILES_BY_TYPE') ?? 'markdown:markdown,csv:token')
+      .split(',')
+      .map((pair) => pair.split(':').map((s) => s.trim()));
+    const match = byType.find(([type]) => type === fileType)?.[1];
+    if (isChunkingProfile(match)) return match;
+    const fallback = this.configService.get<string>('CHUNKING_PROFILE');
+    return isChunkingProfile(fallback) ? fallback : 'recursive';
+  }
+
+  /**
+   * Idempotent ingest of one source document, using the registry's content hashes:
+   * - identical content already indexed in this store with the same chunking profile and ACL →
+   *   skipped (no duplicate chunks);
+   * - same content with another profile or ACL, or same `sourceKey` (see IngestSource) with
+   *   different content → old vectors replaced;
+   * - otherwise → added as a new document. A filename alone never replaces anything.
+   * Without a reachable registry every document is added.
+   */
+  private async ingestDocument(
+    parts: Document[],
+    store: KnowledgeBaseStore,
+    sourceKey?: string,
+  ): Promise<IndexedDocument> {
+    const doc = parts[0];
+    const contentHash = sha256(joinParts(parts));
+    const filename = doc.metadata?.filename as string | undefined;
+    const source = doc.metadata?.source as string | undefined;
+
+    let duplicate: { id: string; metadata: unknown } | null = null;
+    let previous: { id: string } | null = null;
+    try {
+      duplicate = await this.ragService.findByContentHash(
+        contentHash,
+        this.vectorStoreKind,
+        store.knowledgeBaseId,
+      );
+      const recorded = (duplicate?.metadata ?? {}) as Record<string, unknown>;
+      const chunkedAs = recorded.chunking ?? 'recursive';
+      const sameAccess =
+        JSON.stringify(recorded[ACCESS_FIELD] ?? []) === JSON.stringify(doc.metadata?.[ACCESS_FIELD] ?? []);
+      if (duplicate && (chunkedAs !== doc.metadata?.chunking || !sameAccess)) {
+        previous = duplicate;
+        duplicate = null;
+      } else if (!duplicate && sourceKey) {
+        previous = await this.ragService.findBySourceKey(sourceKey, store.knowledgeBaseId);
+      }
+    } catch (err) {
+      this.appLog.warn('Registry lookup failed; ingesting without deduplication', {
+        source,
+        error: err instanceof Error ? err.message : String(err),
+      });
+    }
+
+    if (duplicate) {
+      this.appLog.debug('Ingest: unchanged content skipped', {
+        documentId: duplicate.id,
+        source,
+        contentHash,
+      });
+      return {
+        id: duplicate.id,
+        filename,
+        source,
+        status: 'skipped',
+        chunkCount: 0,
+        registered: true,
+      };
+    }
+
+    if (previous) {
+      await this.deleteDocumentVectors(previous.id, store.knowledgeBaseId);
+      return { ...(await this.indexDocument(parts, previous.id, store, sourceKey)), status: 'replaced' };
+    }
+
+    return this.indexDocument(parts, randomUUID(), store, sourceKey);
+  }
+
+  /**
+   * Re-split and re-embed a registered document: drops its vectors, re-loads the file when it
+   * still exists (otherwise uses the stored text) and indexes it again under the same id.
+   * `chunking` re-chunks it with another profile; by default the recorded one is kept.
+   */
+  async reindexDocument(record: {
+    id: string;
+    knowledgeBaseId: string;
+    content: string;
+    filename: string | null;
+    filePath: string | null;
+    sourceKey: string | null;
+    metadata: unknown;
+  }, chunking?: ChunkingProfile): Promise<IndexedDocument> {
+    const store = await this.getStore(record.knowledgeBaseId);
+    await this.deleteDocumentVectors(record.id, record.knowledgeBaseId);
+
+    const recorded = (record.metadata ?? {}) as Record<string, unknown>;
+    const metadata = {
+      ...recorded,
+      chunking:
+        chunking ??
+        (isChunkingProfile(recorded.chunking) ? recorded.chunking : this.chunkingProfileFor(recorded.fileType)),
+    };
+    let parts: Document[] = [];
+    if (record.filePath && existsSync(record.filePath)) {
+      const loaded = await loadFileAsDocuments(record.filePath, {
+        filename: record.filename ?? undefined,
+      });
+      parts = loaded.map(
+        (part) =>
+          new Document({
+            pageContent: part.pageContent,
+            metadata: { ...metadata, ...part.metadata, filename: record.filename ?? undefined },
+          }),
+      );
+    }
+    if (parts.length === 0) {
+      parts = [new Document({ pageContent: record.content, metadata })];
+    }
+
+    const indexed: IndexedDocument = {
+      ...(await this.indexDocument(parts, record.id, store, record.sourceKey ?? undefined)),
+      status: 'replaced',
+    };
+    this.appLog.log('Document reindexed', {
+      documentId: record.id,
+      storage: this.vectorStoreKind,
+      chunking: metadata.chunking,
+      chunks: indexed.chunkCount,
+    });
+    if (indexed.registered) this.invoices.scheduleExtraction([record.id]);
+    return indexed;
+  }
+
+  /** Remove every chunk of a document from its knowledge base's vector store and keyword index. */
+  async deleteDocumentVectors(documentId: string, knowledgeBaseId = DEFAULT_KNOWLEDGE_BASE): Promise<void> {
+    const { vectorStore, keywordIndex } = await this.getStore(knowledgeBaseId);
+    keywordIndex.removeDocument(documentId);
+    if (vectorStore instanceof QdrantVectorStore) {
+      await vectorStore.delete({
+        filter: { must: [{ key: 'metadata.documentId', match: { value: documentId } }] },
+      });
+    } else if (vectorStore instanceof MemoryVectorStore) {
+      vectorStore.memoryVectors = vectorStore.memoryVectors.filter(
+        (v) => v.metadata?.documentId !== documentId,
+      );
+    }
+  }
+
+  /**
+   * Split one source document with its chunking profile (`metadata.chunking`), add its chunks to the vector store (tagged with `documentId`)
+   * and record it in the Postgres registry / pgvector. Parts (PDF pages) are split separately
+   * so every chunk keeps its `page`. The registry write is best effort so the chat RAG flow
+   * keeps working when Postgres is down.
+   */
+  private async indexDocument(
+    parts: Document[],
+    documentId: string,
+    store: KnowledgeBaseStore,
+    sourceKey?: string,
+  ): Promise<IndexedDocument> {
+    const profile = isChunkingProfile(parts[0].metadata?.chunking) ? parts[0].metadata.chunking : 'recursive';
+
+    // Hash every chunk; repeated boilerplate inside one document is stored once.
+    const seen = new Set<string>();
+    const chunks: Document[] = [];
+    for (const chunk of await splitWithProfile(parts, profile)) {
+      const chunkHash = sha256(chunk.pageContent);
+      if (seen.has(chunkHash)) continue;
+      seen.add(chunkHash);
+      chunks.push(
+        new Document({
+          pageContent: chunk.pageContent,
+          metadata: { ...chunk.metadata, chunking: profile, documentId, chunkIndex: chunks.length, chunkHash },
+        }),
+      );
+    }
+    // Embedded once; the same vectors go to the chat vector store and to pgvector.
+    const vectors = chunks.length ? await this.embeddings.embedDocuments(chunks.map((c) => c.pageContent)) : [];
+    if (chunks.length > 0) {
+      await store.vectorStore.addVectors(vectors, chunks);
+      store.keywordIndex.add(chunks);
+    }
+
+    const { page: _page, ...metadata } = parts[0].metadata ?? {};
+    const content = joinParts(parts);
+    const source = metadata.source as string | undefined;
+    const filename = metadata.filename as string | undefined;
+    let registered = false;
+    try {
+      await this.ragService.saveDocument({
+        id: documentId,
+        knowledgeBaseId: store.knowledgeBaseId,
+        title: filename ?? (source ? basename(source) : 'Untitled'),
+        content,
+        contentHash: sha256(content),
+        sourceKey,
+        source,
+        filename,
+        filePath: filename ? source : undefined,
+        metadata,
+        vectorStore: this.vectorStoreKind,
+        chunks,
+        vectors,
+      });
+      registered = true;
+    } catch (err) {
+      this.appLog.warn('Document registry write failed; chunks are only in the chat vector store', {
+        documentId,
+        source,
+        error: err instanceof Error ? err.message : String(err),
+      });
+    }
+
+    return { id: documentId, filename, source, status: 'added', chunkCount: chunks.length, registered };
+  }
+
+  async handleFileUpload(
+    files: Express.Multer.File[],
+    knowledgeBaseId?: string,
+    chunking?: ChunkingProfile,
+    acl?: DocumentAcl,
+    uploadedBy?: string,
+  ) {
     if (!files || files.length === 0) {
       return {
         success: false,
@@ -197,9 +789,10 @@ export class ChatService {
       };
     }
 
-    const filePaths = files.map((file) => resolve(file.path));
-
-    const result = await this.ingest({ pdfPaths: filePaths });
+    const result = await this.ingest(
+      { knowledgeBaseId, chunking, acl },
+      files.map((file) => toIngestFile(file, uploadedBy)),
+    );
 
     return {
       ...result,
@@ -211,27 +804,145 @@ export class ChatService {
    * RAG query: retrieve relevant chunks from the vector store, then generate an answer
    * using only that context so responses stay grounded in ingested documents.
    */
-  async query(question: string) {
-    await this.ensureInit();
+  async query(question: string, options: QueryOptions = {}): Promise<QueryResult> {
+    const prepared = await this.prepareQuery(question, options);
+    if ('result' in prepared) return prepared.result;
+
+    // --- Generate answer ---
+    // Pass question and retrieved docs to the chain; the chain formats context and gets one LLM response.
+    // Retries, timeouts and fallback models are handled by runWithFallback().
+    let run: ModelRun<string>;
+    try {
+      run = await this.models.runWithFallback(prepared.model, async (llm, signal) => {
+        const chain = await this.answerChain(llm, prepared.prompt);
+        return chain.invoke(
+          { question: prepared.standaloneQuestion, context: prepared.contextDocs },
+          { signal },
+        );
+      });
+    } catch (err) {
+      return this.generationFailed(prepared, err);
+    }
+
+    const checked = await this.checkAndCorrect(prepared, run);
+    return this.completeQuery(checked.prepared, checked.run.result, checked.run, checked.grounding);
+  }
+
+  /**
+   * Streaming variant of query(): yields answer tokens as the LLM produces them, then one
+   * `done` event with citations and contextCount. Early exits (empty question, no context)
+   * yield their message as a single token. The grounding check runs after the last token and
+   * only reports: a streamed answer cannot be regenerated.
+   */
+  async *queryStream(
+    question: string,
+    options: QueryOptions = {},
+  ): AsyncGenerator<QueryStreamEvent> {
+    const prepared = await this.prepareQuery(question, options);
+    if ('result' in prepared) {
+      const { answer, ...rest } = prepared.result;
+      if (answer) yield { type: 'token', data: answer };
+      yield { type: 'done', data: rest };
+      return;
+    }
+
+    // Retry and fallback cover the call up to the first token; once tokens reach the client a
+    // failing model cannot be swapped without repeating output.
+    let run: ModelRun<{ first: IteratorResult<string>; rest: AsyncIterator<string> }>;
+    try {
+      run = await this.models.runWithFallback(prepared.model, async (llm, signal) => {
+        const chain = await this.answerChain(llm, prepared.prompt);
+        const stream = await chain.stream(
+          { question: prepared.standaloneQuestion, context: prepared.contextDocs },
+          { signal },
+        );
+        const rest = stream[Symbol.asyncIterator]();
+        return { first: await rest.next(), rest };
+      });
+    } catch (err) {
+      const { answer: _none, ...rest } = this.generationFailed(prepared, err);
+      yield { type: 'done', data: rest };
+      return;
+    }
+
+    let answer = '';
+    for (let next = run.result.first; !next.done; next = await run.result.rest.next()) {
+      answer += next.value;
+      yield { type: 'token', data: next.value };
+    }
+
+    const report = this.groundingCheckEnabled()
+      ? await this.checkGrounding(prepared, answer)
+      : undefined;
+    const grounding = report ? { ...report, corrections: 0 } : undefined;
+    const { answer: _full, ...rest } = await this.completeQuery(prepared, answer, run, grounding);
+    yield { type: 'done', data: rest };
+  }
+
+  /**
+   * Shared first half of query()/queryStream(): validation, question condensing, retrieval and
+   * chain assembly. Returns `result` when there is nothing to generate.
+   */
+  private async prepareQuery(
+    question: string,
+    options: QueryOptions,
+  ): Promise<{ result: QueryResult } | PreparedQuery> {
+    const store = await this.getStore(options.knowledgeBaseId);
+    const { sessionId } = options;
+    const mode = options.mode ?? this.defaultRetrievalMode();
 
     // --- Input validation ---
     // Reject empty/whitespace-only questions to avoid wasted retrieval and LLM calls.
     if (!question?.trim()) {
       return {
-        success: false,
-        message: 'Question cannot be empty',
-        answer: '',
-        sources: [],
+        result: {
+          success: false,
+          message: 'Question cannot be empty',
+          answer: '',
+          citations: [],
+        },
+      };
+    }
+    const filterError = options.filter ? validateMetadataFilter(options.filter) : undefined;
+    if (filterError) {
+      return {
+        result: {
+          success: false,
+          message: `Invalid filter: ${filterError}`,
+          answer: '',
+          citations: [],
+        },
       };
     }
 
+    // --- Conversation memory ---
+    // Follow-ups ("and what was its tracking ID?") only embed well once rewritten as a standalone
+    // question using earlier turns of the session.
+    const history = sessionId ? await this.sessionService.getHistory(sessionId, options.sessionOwner) : [];
+    let standaloneQuestion = question;
+    try {
+      standaloneQuestion = (
+        await this.models.runWithFallback(options.model, (llm, signal) =>
+          condenseQuestion(llm, history, question, signal),
+        )
+      ).result;
+    } catch (err) {
+      this.appLog.warn('Condensing follow-up failed; retrieving with the original question', {
+        sessionId,
+        error: err instanceof Error ? err.message : String(err),
+      });
+    }
+    if (standaloneQuestion !== question) {
+      this.appLog.debug('Condensed follow-up question', {
+        sessionId,
+        historyTurns: history.length,
+        standaloneQuestion,
+      });
+    }
+
     // --- Retriever setup ---
     // Fetch more chunks (k=8) so broad questions like "Who is X?" get the right passage; was k=4.
     const retrievalK = parseInt(this.configService.get('RAG_RETRIEVAL_K') ?? '8', 10);
-    const retriever = this.vectorStore.asRetriever({
-      k: retrievalK,
-      searchType: 'similarity',
-    });
 
     // --- RAG prompt ---
     // Answer based only on the retrieved context, but allow reasonable summarization/inference from it.
@@ -252,79 +963,475 @@ export class ChatService {
       ],
     ]);
 
-    // --- Chain assembly ---
-    // createStuffDocumentsChain "stuffs" all retrieved docs into the {context} variable
-    // and runs the LLM once. StringOutputParser gives a plain string answer instead of a message object.
-    const ragChain = await createStuffDocumentsChain({
-      llm: this.llm,
-      prompt,
-      outputParser: new StringOutputParser(),
-    });
+    // --- Query expansion ---
+    // Short or vague questions embed poorly: optionally search with a rewrite, several
+    // paraphrases or a hypothetical answer (HyDE) instead of the question alone.
+    const expanded = await this.expandQuery(standaloneQuestion, options);
+    const expansionDebug = expanded.expansion === 'none' ? {} : { queryExpansion: expanded };
 
     // --- Retrieve context ---
-    // Embed the question and fetch the k nearest document chunks from the vector store.
-    const contextDocs = await retriever.invoke(question);
+    // Vector, BM25 or fused retrieval (see retrieve()). With a reranker, over-fetch candidates
+    // so it can promote relevant chunks that retrieval ranked below k.
+    // Scores are kept alongside the chunks for the citations.
+    const candidateK = this.reranker
+      ? Math.max(parseInt(this.configService.get('RERANK_CANDIDATES') ?? '20', 10), retrievalK)
+      : retrievalK;
+    const candidates: RankedChunk[] = (
+      await this.retrieveExpanded(store, expanded, candidateK, mode, options.filter, options.access)
+    ).map(([doc, score]) => ({ doc, score }));
+
+    // --- Rerank ---
+    // Keep only the top-n candidates scoring at least RERANK_MIN_SCORE against the question.
+    const { ranked, rerank } = await this.rerankContext(standaloneQuestion, candidates, retrievalK, options.model);
+    const contextDocs = ranked.map((c) => c.doc);
 
     this.ragQueriesTotal += 1;
 
+    // --- Irrelevant context guard ---
+    // Retrieval found chunks but the reranker judged none relevant: answering from them would
+    // only invite guessing.
+    if (candidates.length > 0 && contextDocs.length === 0) {
+      this.appLog.debug('RAG query: no relevant context after rerank', {
+        mode,
+        ...rerank,
+        successRate: `${this.ragQueriesSuccess}/${this.ragQueriesTotal}`,
+      });
+      return {
+        result: {
+          success: false,
+          answer: "I don't know based on the provided documents.",
+          message: 'No retrieved chunk passed the rerank threshold (RERANK_MIN_SCORE).',
+          citations: [],
+          contextCount: 0,
+          rerank,
+          ...expansionDebug,
+        },
+      };
+    }
+
     // --- No context guard ---
     // If nothing was ingested or nothing matches, we cannot answer. MemoryVectorStore is in-memory
     // so the index is cleared on every server restart—re-upload/re-ingest after restart.
     if (contextDocs.length === 0) {
       this.appLog.debug('RAG query: no context', {
         storage: this.vectorStoreKind,
+        mode,
+        filter: options.filter,
         retrieval: 0,
         success: false,
         successRate: `${this.ragQueriesSuccess}/${this.ragQueriesTotal}`,
       });
+      if (options.filter || options.access) {
+        return {
+          result: {
+            success: false,
+            answer: options.filter
+              ? 'No indexed content matches the filter.'
+              : 'No indexed content you have access to matches the question.',
+            citations: [],
+            contextCount: 0,
+            ...expansionDebug,
+          },
+        };
+      }
       const note =
         this.vectorStoreKind === 'memory'
           ? ' Note: the index is in-memory and is cleared when the server restarts.'
           : ' (Using Qdrant; ingest via POST /chat/upload or /chat/ingest.)';
       return {
-        success: false,
-        answer:
-          'No indexed content yet. Please ingest documents first (e.g. POST /chat/upload).' + note,
-        sources: [],
-        contextCount: 0,
+        result: {
+          success: false,
+          answer:
+            'No indexed content yet. Please ingest documents first (e.g. POST /chat/upload).' + note,
+          citations: [],
+          contextCount: 0,
+          ...expansionDebug,
+        },
       };
     }
 
-    // --- Generate answer ---
-    // Pass question and retrieved docs to the chain; the chain formats context and gets one LLM response.
-    const answer = await ragChain.invoke({ question, context: contextDocs });
+    return {
+      question,
+      sessionId,
+      sessionOwner: options.sessionOwner,
+      knowledgeBaseId: store.knowledgeBaseId,
+      standaloneQuestion,
+      contextDocs,
+      ranked,
+      mode,
+      filter: options.filter,
+      access: options.access,
+      expanded,
+      rerank,
+      model: options.model,
+      includeContext: options.includeContext,
+      prompt,
+    };
+  }
 
+  /**
+   * Chain assembly: createStuffDocumentsChain "stuffs" all retrieved docs into the {context}
+   * variable and runs the LLM once. StringOutputParser gives a plain string answer instead of a
+   * message object. Built per call because the model can change between fallback attempts.
+   */
+  private answerChain(
+    llm: BaseChatModel,
+    prompt: ChatPromptTemplate,
+  ): Promise<RunnableSequence<Record<string, unknown>, string>> {
+    return createStuffDocumentsChain({ llm, prompt, outputParser: new StringOutputParser() });
+  }
+
+  /** Every chat model in the fallback chain failed: report it instead of a 500. */
+  private generationFailed(prepared: PreparedQuery, err: unknown): QueryResult {
+    const message = err instanceof Error ? err.message : String(err);
+    this.appLog.error('RAG query failed: no chat model answered', {
+      knowledgeBaseId: prepared.knowledgeBaseId,
+      mode: prepared.mode,
+      error: message,
+      successRate: `${this.ragQueriesSuccess}/${this.ragQueriesTotal}`,
+    });
+    return {
+      success: false,
+      answer: '',
+      message,
+      citations: [],
+      contextCount: prepared.contextDocs.length,
+    };
+  }
+
+  private groundingCheckEnabled(): boolean {
+    return this.configService.get<string>('GROUNDING_CHECK') !== 'off';
+  }
+
+  /** Verify the answer against its context; undefined (and a warning) if the check fails. */
+  private async checkGrounding(
+    prepared: PreparedQuery,
+    answer: string,
+  ): Promise<GroundingReport | undefined> {
+    try {
+      return (
+        await this.models.runWithFallback(prepared.model, (llm, signal) =>
+          verifyGrounding(llm, answer, prepared.contextDocs, signal),
+        )
+      ).result;
+    } catch (err) {
+      this.appLog.warn('Grounding check failed; answer returned unverified', {
+        knowledgeBaseId: prepared.knowledgeBaseId,
+        error: err instanceof Error ? err.message : String(err),
+      });
+      return undefined;
+    }
+  }
+
+  /**
+   * Self-correction: while the answer scores below GROUNDING_MIN_SCORE (up to
+   * GROUNDING_MAX_CORRECTIONS times), re-retrieve for the unsupported sentences and regenerate.
+   * The best-scoring answer is kept, so a correction never makes the result worse.
+   */
+  private async checkAndCorrect(
+    prepared: PreparedQuery,
+    run: ModelRun<string>,
+  ): Promise<{
+    prepared: PreparedQuery;
+    run: ModelRun<string>;
+    grounding?: GroundingReport & { corrections: number };
+  }> {
+    if (!this.groundingCheckEnabled()) return { prepared, run };
+    const report = await this.checkGrounding(prepared, run.result);
+    if (!report) return { prepared, run };
+
+    const minScore = parseFloat(this.configService.get('GROUNDING_MIN_SCORE') ?? '0.8');
+    const maxCorrections = parseInt(this.configService.get('GROUNDING_MAX_CORRECTIONS') ?? '1', 10);
+    let best = { prepared, run, report };
+    let corrections = 0;
+    while (best.report.score < minScore && corrections < maxCorrections) {
+      corrections += 1;
+      try {
+        const corrected = await this.correctAnswer(best.prepared, best.run.result, best.report.unsupported);
+        const correctedReport = await this.checkGrounding(corrected.prepared, corrected.run.result);
+        if (!correctedReport) break;
+        this.appLog.log('Answer regenerated for grounding', {
+          knowledgeBaseId: prepared.knowledgeBaseId,
+          correction: corrections,
+          before: best.report.score,
+          after: correctedReport.score,
+          contextCount: corrected.prepared.contextDocs.length,
+        });
+        if (correctedReport.score >= best.report.score) best = { ...corrected, report: correctedReport };
+      } catch (err) {
+        this.appLog.warn('Answer correction failed; keeping the previous answer', {
+          knowledgeBaseId: prepared.knowledgeBaseId,
+          error: err instanceof Error ? err.message : String(err),
+        });
+        break;
+      }
+    }
+    return { prepared: best.prepared, run: best.run, grounding: { ...best.report, corrections } };
+  }
+
+  /**
+   * One correction round: search again with a query rewritten around the unsupported sentences,
+   * add new chunks to the context, then ask for the answer again without those sentences. When
+   * the rewrite or search fails, the answer is regenerated from the same context.
+   */
+  private async correctAnswer(
+    prepared: PreparedQuery,
+    answer: string,
+    unsupported: string[],
+  ): Promise<{ prepared: PreparedQuery; run: ModelRun<string> }> {
+    let next = prepared;
+    try {
+      const query = (
+        await this.models.runWithFallback(prepared.model, (llm, signal) =>
+          rewriteQueryForClaims(llm, prepared.standaloneQuestion, unsupported, signal),
+        )
+      ).result;
+      const retrievalK = parseInt(this.configService.get('RAG_RETRIEVAL_K') ?? '8', 10);
+      const store = await this.getStore(prepared.knowledgeBaseId);
+      const candidates: RankedChunk[] = (
+        await this.retrieve(store, query, retrievalK, prepared.mode, prepared.filter, prepared.access)
+      ).map(([doc, score]) => ({ doc, score }));
+      const { ranked: found } = await this.rerankContext(query, candidates, retrievalK, prepared.model);
+      const known = new Set(prepared.contextDocs.map((doc) => doc.pageContent));
+      const added = found.filter((chunk) => !known.has(chunk.doc.pageContent));
+      this.appLog.debug('Re-retrieved for unsupported sentences', {
+        query,
+        found: found.length,
+        added: added.length,
+      });
+      if (added.length > 0) {
+        const ranked = [...prepared.ranked, ...added];
+        next = { ...prepared, ranked, contextDocs: ranked.map((c) => c.doc) };
+      }
+    } catch (err) {
+      this.appLog.warn('Re-retrieval failed; regenerating from the same context', {
+        error: err instanceof Error ? err.message : String(err),
+      });
+    }
+
+    const prompt = withCorrectionRequest(next.prompt);
+    const run = await this.models.runWithFallback(next.model, async (llm, signal) => {
+      const chain = await this.answerChain(llm, prompt);
+      return chain.invoke(
+        {
+          question: next.standaloneQuestion,
+          context: next.contextDocs,
+          previousAnswer: answer,
+          unsupported: unsupported.map((s) => `- ${s}`).join('\n'),
+        },
+        { signal },
+      );
+    });
+    return { prepared: next, run };
+  }
+
+  /**
+   * Apply the configured reranker to the candidates. Without one (or if it fails) the first
+   * `retrievalK` candidates are kept in retrieval order. `model` is the request's chat model
+   * override, used by the llm reranker.
+   */
+  private async rerankContext(
+    question: string,
+    candidates: RankedChunk[],
+    retrievalK: number,
+    model?: string,
+  ): Promise<{ ranked: RankedChunk[]; rerank?: QueryResult['rerank'] }> {
+    if (!this.reranker || candidates.length === 0) {
+      return { ranked: candidates.slice(0, retrievalK) };
+    }
+
+    const topN = parseInt(this.configService.get('RERANK_TOP_N') ?? '4', 10);
+    const minScore = parseFloat(this.configService.get('RERANK_MIN_SCORE') ?? '0.3');
+    try {
+      const ranked = await rerankChunks(this.reranker, question, candidates, { topN, minScore, model });
+      const rerank = { reranker: this.reranker.name, candidates: candidates.length, kept: ranked.length };
+      this.appLog.debug('Reranked context', { ...rerank, topScore: ranked[0]?.rerankScore });
+      return { ranked, rerank };
+    } catch (err) {
+      this.appLog.warn('Rerank failed; using retrieval order', {
+        reranker: this.reranker.name,
+        error: err instanceof Error ? err.message : String(err),
+      });
+      return { ranked: candidates.slice(0, retrievalK) };
+    }
+  }
+
+  private defaultRetrievalMode(): RetrievalMode {
+    const mode = this.configService.get<string>('RAG_RETRIEVAL_MODE') ?? 'hybrid';
+    return (RETRIEVAL_MODES as readonly string[]).includes(mode) ? (mode as RetrievalMode) : 'hybrid';
+  }
+
+  private defaultQueryExpansion(): QueryExpansion {
+    const expansion = this.configService.get<string>('RAG_QUERY_EXPANSION') ?? 'none';
+    return (QUERY_EXPANSIONS as readonly string[]).includes(expansion)
+      ? (expansion as QueryExpansion)
+      : 'none';
+  }
+
+  /** Expand the question for retrieval; on failure the question is searched as is. */
+  private async expandQuery(question: string, options: QueryOptions): Promise<ExpandedQuery> {
+    const expansion = options.expansion ?? this.defaultQueryExpansion();
+    if (expansion === 'none') return { expansion, queries: [question] };
+
+    const count = parseInt(this.configService.get('RAG_MULTI_QUERY_COUNT') ?? '3', 10);
+    try {
+      const expanded = (
+        await this.models.runWithFallback(options.model, (llm, signal) =>
+          expandQuery(llm, expansion, question, { count, signal }),
+        )
+      ).result;
+      this.appLog.debug('Expanded query', { ...expanded });
+      return expanded;
+    } catch (err) {
+      this.appLog.warn('Query expansion failed; retrieving with the question', {
+        expansion,
+        error: err instanceof Error ? err.message : String(err),
+      });
+      return { expansion: 'none', queries: [question] };
+    }
+  }
+
+  /** retrieve() once per expanded query; several result lists are fused, which also dedupes. */
+  private async retrieveExpanded(
+    store: KnowledgeBaseStore,
+    expanded: ExpandedQuery,
+    k: number,
+    mode: RetrievalMode,
+    filter?: MetadataFilter,
+    access?: AccessScope,
+  ): Promise<[Document, number][]> {
+    const rankings = await Promise.all(
+      expanded.queries.map((query) =>
+        this.retrieve(store, query, k, mode, filter, access, expanded.hypotheticalAnswer),
+      ),
+    );
+    return rankings.length === 1 ? rankings[0] : reciprocalRankFusion(rankings).slice(0, k);
+  }
+
+  /**
+   * Top-k chunks with scores. `vector`: embedding similarity; `keyword`: BM25, which catches
+   * exact invoice numbers, tracking IDs and SKUs that embeddings blur; `hybrid`: both lists
+   * merged by reciprocal rank fusion (scores become RRF scores). The metadata filter and the
+   * caller's document access are applied inside each search (Qdrant payload filter / predicate),
+   * before ranking, so k is filled with readable chunks. `vectorQuery` replaces the question for
+   * the embedding search only (HyDE).
+   */
+  private async retrieve(
+    store: KnowledgeBaseStore,
+    question: string,
+    k: number,
+    mode: RetrievalMode,
+    filter?: MetadataFilter,
+    access?: AccessScope,
+    vectorQuery = question,
+  ): Promise<[Document, number][]> {
+    const predicates = [
+      ...(filter ? [toMetadataPredicate(filter)] : []),
+      ...(access ? [toAccessPredicate(access)] : []),
+    ];
+    const predicate =
+      predicates.length > 0 ? (doc: Document) => predicates.every((matches) => matches(doc)) : undefined;
+    if (mode === 'keyword') return store.keywordIndex.search(question, k, predicate);
+
+    let vectorFilter: QdrantFilter | ((doc: Document) => boolean) | undefined = predicate;
+    if (predicate && store.vectorStore instanceof QdrantVectorStore) {
+      const base = filter ? toQdrantFilter(filter) : {};
+      vectorFilter = access ? { ...base, must: [...(base.must ?? []), toQdrantAccessCondition(access)] } : base;
+    }
+    const vectorResults = await store.vectorStore.similaritySearchWithScore(vectorQuery, k, vectorFilter);
+    if (mode === 'vector') return vectorResults;
+
+    const keywordResults = store.keywordIndex.search(question, k, predicate);
+    if (keywordResults.length === 0) return vectorResults;
+    return reciprocalRankFusion([vectorResults, keywordResults]).slice(0, k);
+  }
+
+  /** Shared second half of query()/queryStream(): citations, logging and session memory. */
+  private async completeQuery(
+    prepared: PreparedQuery,
+    answer: string,
+    run: Pick<ModelRun<unknown>, 'model' | 'fallback'>,
+    grounding?: GroundingReport & { corrections: number },
+  ): Promise<QueryResult> {
+    const {
+      question,
+      sessionId,
+      sessionOwner,
+      knowledgeBaseId,
+      standaloneQuestion,
+      contextDocs,
+      ranked,
+      mode,
+      rerank,
+      expanded,
+    } = prepared;
     this.ragQueriesSuccess += 1;
 
     // --- Source attribution ---
-    // Collect unique source paths from chunk metadata (e.g. PDF filenames), dedupe with Set,
-    // and cap at 10 so the response payload stays bounded.
-    const sources = Array.from(
-      new Set(
-        contextDocs.map((d) => d.metadata?.source).filter(Boolean) as string[],
-      ),
-    ).slice(0, 10);
+    // One citation per file page (filename, page, snippet, score) from chunk metadata,
+    // best match first, capped at 10 so the response payload stays bounded.
+    const citations = buildCitations(ranked);
+    const answeredBy = { ...run.model, fallback: run.fallback };
 
     // --- RAG application log (JSON to stdout for docker compose / jq) ---
     const questionPreview = question.trim().slice(0, 80) + (question.length > 80 ? '...' : '');
     this.appLog.log('RAG query success', {
       storage: this.vectorStoreKind,
+      knowledgeBaseId,
+      mode,
+      expansion: expanded.expansion,
       retrieval: contextDocs.length,
       contextCount: contextDocs.length,
       success: true,
       answerLen: answer.length,
-      sourcesCount: sources.length,
+      citationsCount: citations.length,
+      answeredBy,
+      ...(grounding
+        ? {
+            groundedness: grounding.score,
+            unsupported: grounding.unsupported.length,
+            corrections: grounding.corrections,
+          }
+        : {}),
       successRate: `${this.ragQueriesSuccess}/${this.ragQueriesTotal}`,
       questionPreview,
     });
 
+    if (sessionId) {
+      await this.sessionService.appendTurn(
+        sessionId,
+        question,
+        answer,
+        {
+          citations,
+          answeredBy,
+          ...(grounding ? { groundedness: grounding.score } : {}),
+        },
+        sessionOwner,
+      );
+    }
+
     // --- Success response ---
-    // Return the answer, list of sources used, and how many chunks were in context (for transparency).
+    // Return the answer, citations used, and how many chunks were in context (for transparency).
     return {
       success: true,
       answer,
-      sources,
+      citations,
       contextCount: contextDocs.length,
+      answeredBy,
+      ...(grounding
+        ? {
+            groundedness: grounding.score,
+            unsupportedSentences: grounding.unsupported,
+            corrections: grounding.corrections,
+          }
+        : {}),
+      ...(rerank ? { rerank } : {}),
+      ...(expanded.expansion === 'none' ? {} : { queryExpansion: expanded }),
+      ...(sessionId ? { sessionId, standaloneQuestion } : {}),
+      ...(prepared.includeContext
+        ? { context: contextDocs.map((doc) => ({ content: doc.pageContent, metadata: doc.metadata })) }
+        : {}),
     };
   }
 
@@ -0,0 +1,59 @@
+import { Transform } from 'class-transformer';
+import { IsIn, IsObject, IsOptional, IsString } from 'class-validator';
+import type { MetadataFilter } from '../helper/metadata-filter';
+
+export const RETRIEVAL_MODES = ['vector', 'keyword', 'hybrid'] as const;
+export type RetrievalMode = (typeof RETRIEVAL_MODES)[number];
+
+/** How the question is expanded before retrieval (see expandQuery()). */
+export const QUERY_EXPANSIONS = ['none', 'rewrite', 'multi-query', 'hyde'] as const;
+export type QueryExpansion = (typeof QUERY_EXPANSIONS)[number];
+
+export class AskDto {
+  @IsString()
+  question: string;
+
+  /** Continue a conversation: earlier turns are used to resolve follow-up questions. */
+  @IsOptional()
+  @IsString()
+  sessionId?: string;
+
+  /** Retrieval strategy for this request; defaults to RAG_RETRIEVAL_MODE. */
+  @IsOptional()
+  @IsIn(RETRIEVAL_MODES)
+  mode?: RetrievalMode;
+
+  /** Query rewriting, multi-query expansion or HyDE; defaults to RAG_QUERY_EXPANSION. */
+  @IsOptional()
+  @IsIn(QUERY_EXPANSIONS)
+  expansion?: QueryExpansion;
+
+  /** Knowledge base to search; defaults to "default". */
+  @IsOptional()
+  @IsString()
+  knowledgeBaseId?: string;
+
+  /** Chat model override: `"provider:model"` (ollama, openai, gemini) or a default-provider model name. */
+  @IsOptional()
+  @IsString()
+  model?: string;
+
+  /**
+   * Metadata filter, e.g. `{ docType: 'invoice', date: { gte: '2024-01-01' } }`.
+   * GET requests pass it as a JSON string.
+   */
+  @IsOptional()
+  @Transform(({ value }) => parseJsonParam(value))
+  @IsObject()
+  filter?: MetadataFilter;
+}
+
+/** Query-string objects arrive as JSON text; invalid JSON is left for @IsObject to reject. */
+function parseJsonParam(value: unknown): unknown {
+  if (typeof value !== 'string') return value;
+  try {
+    return JSON.parse(value);
+  } catch {
+    return value;
+  }
+}
@@ -1,5 +1,7 @@
 import { Type } from 'class-transformer';
-import { IsArray, IsObject, IsOptional, IsString, ValidateNested } from 'class-validator';
+import { IsArray, IsIn, IsObject, IsOptional, IsString, ValidateNested } from 'class-validator';
+import { CHUNKING_PROFILES, type ChunkingProfile } from '../helper/chunking';
+import type { DocumentAcl } from '../helper/access-control';
 
 export class IngestDocDto {
   @IsString()
@@ -21,4 +23,19 @@ export class IngestBodyDto {
   @IsArray()
   @IsString({ each: true})
   pdfPaths?: string[]
+
+  /** Knowledge base to ingest into; defaults to "default". */
+  @IsOptional()
+  @IsString()
+  knowledgeBaseId?: string
+
+  /** Chunking profile for every source; defaults by source type (see chunkingProfileFor). */
+  @IsOptional()
+  @IsIn(CHUNKING_PROFILES)
+  chunking?: ChunkingProfile
+
+  /** Who may read every source of the request, e.g. { "groups": ["finance"] }; `meta.acl` of a doc wins. */
+  @IsOptional()
+  @IsObject()
+  acl?: DocumentAcl
 }
\ No newline at end of file
@@ -0,0 +1,38 @@
+import { Document } from '@langchain/core/documents';
+import { aclEntries, toAccessPredicate, toQdrantAccessCondition, validateAcl } from './access-control';
+
+describe('access control', () => {
+  const doc = (access?: string[]) =>
+    new Document({ pageContent: 'Invoice 189012', metadata: access ? { access } : {} });
+
+  it('validates ACLs and flattens them into access entries', () => {
+    expect(validateAcl({ groups: ['finance'] })).toBeUndefined();
+    expect(validateAcl({ users: [] })).toBe('acl needs at least one user or group');
+    expect(validateAcl({ roles: ['finance'] })).toMatch(/unknown field "roles"/);
+    expect(validateAcl(['finance'])).toMatch(/must be an object/);
+    expect(aclEntries({ users: ['ana'], groups: ['finance', 'finance'] })).toEqual(['group:finance', 'user:ana']);
+  });
+
+  it('lets callers read public documents and those whose ACL names them', () => {
+    const support = toAccessPredicate({ user: 'ana', groups: ['support'] });
+
+    expect(support(doc())).toBe(true);
+    expect(support(doc([]))).toBe(true);
+    expect(support(doc(['group:support', 'group:finance']))).toBe(true);
+    expect(support(doc(['user:ana']))).toBe(true);
+    expect(support(doc(['group:finance']))).toBe(false);
+    expect(toAccessPredicate({ groups: [] })(doc(['group:finance']))).toBe(false);
+  });
+
+  it('builds a Qdrant should-condition over the access payload', () => {
+    expect(toQdrantAccessCondition({ user: 'ana', groups: ['support'] })).toEqual({
+      should: [
+        { is_empty: { key: 'metadata.access' } },
+        { key: 'metadata.access', match: { any: ['group:support', 'user:ana'] } },
+      ],
+    });
+    expect(toQdrantAccessCondition({ groups: [] })).toEqual({
+      should: [{ is_empty: { key: 'metadata.access' } }],
+    });
+  });
+});
@@ -0,0 +1,84 @@
+import type { Document } from '@langchain/core/documents';
+import type { QdrantFilter } from './metadata-filter';
+
+/**
+ * Who may read a document, given at ingest as `meta.acl` (or `acl` for a whole request).
+ * A document without an ACL is readable by every caller.
+ */
+export interface DocumentAcl {
+  users?: string[];
+  groups?: string[];
+}
+
+/** The caller's identity. Retrieval without a scope (admin keys, API_AUTH=off) is unrestricted. */
+export interface AccessScope {
+  user?: string;
+  groups: string[];
+}
+
+/**
+ * Chunk metadata field with the flattened ACL (`user:<id>`, `group:<id>`). It is derived from
+ * `acl` at ingest; a caller-supplied value is replaced.
+ */
+export const ACCESS_FIELD = 'access';
+
+const isNameList = (v: unknown): v is string[] =>
+  Array.isArray(v) && v.every((s) => typeof s === 'string' && s.trim().length > 0);
+
+/** Validation message for an invalid ACL, or undefined when it is usable. */
+export function validateAcl(acl: unknown): string | undefined {
+  if (acl == null || typeof acl !== 'object' || Array.isArray(acl)) {
+    return 'acl must be an object with "users" and/or "groups" lists';
+  }
+  const { users, groups, ...rest } = acl as Record<string, unknown>;
+  const unknown = Object.keys(rest);
+  if (unknown.length > 0) return `acl: unknown field "${unknown[0]}" (use users, groups)`;
+  if (users !== undefined && !isNameList(users)) return 'acl.users must be a list of non-empty strings';
+  if (groups !== undefined && !isNameList(groups)) return 'acl.groups must be a list of non-empty strings';
+  if (!(users as string[] | undefined)?.length && !(groups as string[] | undefined)?.length) {
+    return 'acl needs at least one user or group';
+  }
+  return undefined;
+}
+
+/** `access` values of a document ACL. */
+export function aclEntries(acl: DocumentAcl): string[] {
+  const entries = [
+    ...(acl.users ?? []).map((u) => `user:${u.trim()}`),
+    ...(acl.groups ?? []).map((g) => `group:${g.trim()}`),
+  ];
+  return [...new Set(entries)].sort();
+}
+
+/** `access` values a caller matches: their user and each of their groups. */
+export function scopeEntries(scope: AccessScope): string[] {
+  return aclEntries({ users: scope.user ? [scope.user] : [], groups: scope.groups });
+}
+
+/** Chunk is readable when it has no ACL or shares an entry with the caller. */
+export function isReadable(metadata: Record<string, unknown>, entries: string[]): boolean {
+  const access = metadata[ACCESS_FIELD];
+  if (!Array.isArray(access) || access.length === 0) return true;
+  return access.some((entry) => entries.includes(entry as string));
+}
+
+/** The access rule as a predicate, for MemoryVectorStore and the keyword index. */
+export function toAccessPredicate(scope: AccessScope): (doc: Document) => boolean {
+  const entries = scopeEntries(scope);
+  return (doc) => isReadable(doc.metadata ?? {}, entries);
+}
+
+/**
+ * Qdrant condition for the access rule: `access` is empty (public) or matches one of the caller's
+ * entries. Meant to go into `must` next to the request's own filter.
+ */
+export function toQdrantAccessCondition(scope: AccessScope): QdrantFilter {
+  const key = `metadata.${ACCESS_FIELD}`;
+  const entries = scopeEntries(scope);
+  return {
+    should: [
+      { is_empty: { key } },
+      ...(entries.length ? [{ key, match: { any: entries } }] : []),
+    ],
+  };
+}
@@ -0,0 +1,48 @@
+import { Document } from '@langchain/core/documents';
+import { Bm25Index, tokenize } from './bm25';
+import { reciprocalRankFusion } from './rank-fusion';
+
+const chunk = (documentId: string, chunkIndex: number, text: string) =>
+  new Document({ pageContent: text, metadata: { documentId, chunkIndex } });
+
+describe('Bm25Index', () => {
+  const invoice = chunk('a', 0, 'Invoice INV-1001 for order ORD-77, total 120.00 USD');
+  const policy = chunk('b', 0, 'Refund policy: invoices can be disputed within 30 days');
+  const shipping = chunk('c', 0, 'Shipment for order ORD-78 left the warehouse');
+
+  it('keeps joined identifiers whole and split', () => {
+    expect(tokenize('INV-1001')).toEqual(['inv-1001', 'inv', '1001']);
+  });
+
+  it('ranks the chunk containing an exact identifier first', () => {
+    const index = new Bm25Index();
+    index.add([invoice, policy, shipping]);
+
+    const [[top]] = index.search('what is the total of INV-1001?', 3);
+    expect(top).toBe(invoice);
+    expect(index.search('ORD-78', 3)[0][0]).toBe(shipping);
+  });
+
+  it('drops every chunk of a removed document', () => {
+    const index = new Bm25Index();
+    index.add([invoice, policy]);
+    index.removeDocument('a');
+
+    expect(index.size).toBe(1);
+    expect(index.search('INV-1001', 3)).toEqual([]);
+  });
+});
+
+describe('reciprocalRankFusion', () => {
+  it('favours chunks ranked by both retrievers', () => {
+    const a = chunk('a', 0, 'a');
+    const b = chunk('b', 0, 'b');
+    const c = chunk('c', 0, 'c');
+
+    const fused = reciprocalRankFusion([
+      [[a, 0.9], [b, 0.8]],
+      [[c, 12], [b, 3]],
+    ]);
+    expect(fused.map(([doc]) => doc)).toEqual([b, a, c]);
+  });
+});
@@ -0,0 +1,105 @@
+import { Document } from '@langchain/core/documents';
+
+interface IndexedChunk {
+  doc: Document;
+  termFreq: Map<string, number>;
+  length: number;
+}
+
+/**
+ * Lowercased word tokens. Joined identifiers ("INV-1001", "ORD_77", "1Z999/AA") are kept whole
+ * and also split into their parts, so both the exact ID and its pieces can match.
+ */
+export function tokenize(text: string): string[] {
+  const tokens: string[] = [];
+  for (const [token] of text.toLowerCase().matchAll(/[\p{L}\p{N}]+(?:[-_/.][\p{L}\p{N}]+)*/gu)) {
+    tokens.push(token);
+    if (/[-_/.]/.test(token)) tokens.push(...token.split(/[-_/.]/));
+  }
+  return tokens;
+}
+
+/**
+ * In-process Okapi BM25 keyword index over chunks, grouped by `metadata.documentId` so a
+ * document's chunks can be dropped together when it is replaced or deleted.
+ */
+export class Bm25Index {
+  private readonly chunksByDocument = new Map<string, IndexedChunk[]>();
+  private readonly docFreq = new Map<string, number>();
+  private chunkCount = 0;
+  private totalLength = 0;
+
+  constructor(
+    private readonly k1 = 1.2,
+    private readonly b = 0.75,
+  ) { }
+
+  get size(): number {
+    return this.chunkCount;
+  }
+
+  add(docs: Document[]): void {
+    for (const doc of docs) {
+      const terms = tokenize(doc.pageContent);
+      const termFreq = new Map<string, number>();
+      for (const term of terms) termFreq.set(term, (termFreq.get(term) ?? 0) + 1);
+      for (const term of termFreq.keys()) this.docFreq.set(term, (this.docFreq.get(term) ?? 0) + 1);
+
+      const documentId = String(doc.metadata?.documentId ?? '');
+      const chunks = this.chunksByDocument.get(documentId) ?? [];
+      chunks.push({ doc, termFreq, length: terms.length });
+      this.chunksByDocument.set(documentId, chunks);
+      this.chunkCount += 1;
+      this.totalLength += terms.length;
+    }
+  }
+
+  removeDocument(documentId: string): void {
+    const chunks = this.chunksByDocument.get(documentId);
+    if (!chunks) return;
+    for (const chunk of chunks) {
+      for (const term of chunk.termFreq.keys()) {
+        const df = (this.docFreq.get(term) ?? 1) - 1;
+        if (df > 0) this.docFreq.set(term, df);
+        else this.docFreq.delete(term);
+      }
+      this.chunkCount -= 1;
+      this.totalLength -= chunk.length;
+    }
+    this.chunksByDocument.delete(documentId);
+  }
+
+  /**
+   * Top-k chunks by BM25 score; chunks sharing no term with the query, or rejected by
+   * `filter`, are left out.
+   */
+  search(query: string, k: number, filter?: (doc: Document) => boolean): [Document, number][] {
+    const terms = [...new Set(tokenize(query))].filter((t) => this.docFreq.has(t));
+    if (terms.length === 0 || this.chunkCount === 0) return [];
+
+    const avgLength = this.totalLength / this.chunkCount;
+    const idf = new Map(
+      terms.map((t) => {
+        const df = this.docFreq.get(t) ?? 0;
+        return [t, Math.log(1 + (this.chunkCount - df + 0.5) / (df + 0.5))];
+      }),
+    );
+
+    const scored: [Document, number][] = [];
+    for (const chunks of this.chunksByDocument.values()) {
+      for (const chunk of chunks) {
+        if (filter && !filter(chunk.doc)) continue;
+        let score = 0;
+        for (const term of terms) {
+          const tf = chunk.termFreq.get(term);
+          if (!tf) continue;
+          const norm = tf + this.k1 * (1 - this.b + (this.b * chunk.length) / avgLength);
+          score += (idf.get(term) ?? 0) * ((tf * (this.k1 + 1)) / norm);
+        }
+        if (score > 0) scored.push([chunk.doc, score]);
+      }
+    }
+
+    return scored.sort((a, b) => b[1] - a[1]).slice(0, k);
+  }
+}
@@ -0,0 +1,56 @@
+import { Document } from '@langchain/core/documents';
+import { splitWithProfile } from './chunking';
+
+describe('splitWithProfile', () => {
+  it('splits markdown per heading section and records the heading path', async () => {
+    const doc = new Document({
+      pageContent: [
+        '# Policy',
+        'Intro.',
+        '## Refunds',
+        'Within 30 days.',
+        '```',
+        '# not a heading',
+        '```',
+        '## Shipping',
+        'Two days.',
+      ].join('\n'),
+      metadata: { fileType: 'markdown' },
+    });
+
+    const chunks = await splitWithProfile([doc], 'markdown');
+    expect(chunks.map((c) => c.metadata.section)).toEqual([
+      'Policy',
+      'Policy > Refunds',
+      'Policy > Shipping',
+    ]);
+    expect(chunks[1].pageContent).toContain('# not a heading');
+  });
+
+  it('packs whole sentences and repeats the last one in the next chunk', async () => {
+    const sentence = (n: number) => `Sentence number ${n} is about refunds and returns.`;
+    const text = Array.from({ length: 40 }, (_, i) => sentence(i)).join(' ');
+
+    const chunks = await splitWithProfile([new Document({ pageContent: text })], 'sentence');
+    expect(chunks.length).toBeGreaterThan(1);
+    for (const chunk of chunks) {
+      expect(chunk.pageContent.length).toBeLessThanOrEqual(1000);
+      expect(chunk.pageContent).toMatch(/^Sentence number \d+ .*\.$/);
+    }
+    const lastOfFirst = chunks[0].pageContent.split(/(?<=\.) /).pop();
+    expect(chunks[1].pageContent.startsWith(lastOfFirst!)).toBe(true);
+  });
+
+  it('splits text without sentence punctuation (CSV) at line boundaries', async () => {
+    const rows = Array.from({ length: 60 }, (_, i) => `INV-${1000 + i},ACME Corp,2024-01-${(i % 28) + 1},${i * 10}`);
+    const csv = ['number,customer,date,total', ...rows].join('\n');
+
+    const chunks = await splitWithProfile([new Document({ pageContent: csv })], 'sentence');
+    expect(chunks.length).toBeGreaterThan(1);
+    for (const chunk of chunks) {
+      expect(chunk.pageContent.length).toBeLessThanOrEqual(1000);
+      expect(chunk.pageContent).toMatch(/^(number|INV-\d+),/);
+    }
+    expect(chunks[0].pageContent.split('\n')[1]).toBe(rows[0]);
+  });
+});
@@ -0,0 +1,139 @@
+import { Document } from '@langchain/core/documents';
+import { RecursiveCharacterTextSplitter } from '@langchain/textsplitters';
+import { getEncoding, type Tiktoken } from 'js-tiktoken';
+
+/**
+ * Named chunking profiles. The profile used is stored as `chunking` in chunk and document
+ * metadata, so a document can be re-chunked later.
+ * - `recursive`: 500 characters with 80 overlap, cut at paragraph, line, then word boundaries.
+ * - `token`: 256 tokens (cl100k) with 32 overlap. Chunk cost stays even for dense, table-like
+ *   text such as invoices and CSV rows.
+ * - `markdown`: one chunk per heading section, with the heading path in `section`. Sections over
+ *   1000 characters are split recursively.
+ * - `sentence`: whole sentences packed up to 1000 characters, overlapping by one sentence. Suits
+ *   long prose such as policies. A longer "sentence" (tables and CSV have no sentence
+ *   punctuation) is split recursively.
+ */
+export const CHUNKING_PROFILES = ['recursive', 'token', 'markdown', 'sentence'] as const;
+export type ChunkingProfile = (typeof CHUNKING_PROFILES)[number];
+
+export function isChunkingProfile(value: unknown): value is ChunkingProfile {
+  return (CHUNKING_PROFILES as readonly unknown[]).includes(value);
+}
+
+const SEPARATORS = ['\n\n', '\n', ' ', ''];
+
+let encoder: Tiktoken | undefined;
+
+function countTokens(text: string): number {
+  encoder ??= getEncoding('cl100k_base');
+  return encoder.encode(text).length;
+}
+
+/** Split source parts (e.g. PDF pages) with a profile; part metadata is copied to every chunk. */
+export async function splitWithProfile(
+  parts: Document[],
+  profile: ChunkingProfile,
+): Promise<Document[]> {
+  switch (profile) {
+    case 'token':
+      return new RecursiveCharacterTextSplitter({
+        chunkSize: 256,
+        chunkOverlap: 32,
+        lengthFunction: countTokens,
+        separators: SEPARATORS,
+      }).splitDocuments(parts);
+    case 'markdown':
+      return new RecursiveCharacterTextSplitter({
+        chunkSize: 1000,
+        chunkOverlap: 100,
+        separators: SEPARATORS,
+      }).splitDocuments(parts.flatMap(markdownSections));
+    case 'sentence':
+      return (await Promise.all(parts.map((part) => sentenceChunks(part, 1000)))).flat();
+    default:
+      return new RecursiveCharacterTextSplitter({
+        chunkSize: 500,
+        chunkOverlap: 80,
+        separators: SEPARATORS,
+      }).splitDocuments(parts);
+  }
+}
+
+/** One document per heading section (heading line included); fenced code is not scanned. */
+function markdownSections(doc: Document): Document[] {
+  const sections: Document[] = [];
+  const path: string[] = [];
+  let lines: string[] = [];
+  let inFence = false;
+
+  const flush = () => {
+    const text = lines.join('\n').trim();
+    if (text) {
+      const section = path.filter(Boolean).join(' > ');
+      sections.push(
+        new Document({ pageContent: text, metadata: { ...doc.metadata, ...(section ? { section } : {}) } }),
+      );
+    }
+    lines = [];
+  };
+
+  for (const line of doc.pageContent.split('\n')) {
+    if (/^\s*(```|~~~)/.test(line)) inFence = !inFence;
+    const heading = inFence ? null : /^(#{1,6})\s+(.+?)\s*#*\s*$/.exec(line);
+    if (heading) {
+      flush();
+      const level = heading[1].length;
+      path.splice(level - 1);
+      path[level - 1] = heading[2];
+    }
+    lines.push(line);
+  }
+  flush();
+  return sections;
+}
+
+/** Break after `.`, `!` or `?` when the next sentence starts with a capital, digit or opening quote. */
+export const SENTENCE_BREAK = /(?<=[.!?]["')\]]?)\s+(?=["'(\[]?[A-Z0-9])/;
+
+/**
+ * Pack whole sentences into chunks of at most `maxChars`, repeating the previous chunk's last
+ * sentence. A sentence longer than `maxChars` gets chunks of its own, cut recursively at line
+ * and word boundaries of the original text.
+ */
+async function sentenceChunks(doc: Document, maxChars: number): Promise<Document[]> {
+  const splitter = new RecursiveCharacterTextSplitter({
+    chunkSize: maxChars,
+    chunkOverlap: 100,
+    separators: SEPARATORS,
+  });
+  const sentences = doc.pageContent
+    .split(/\n{2,}/)
+    .flatMap((paragraph) => paragraph.split(SENTENCE_BREAK))
+    .map((raw) => ({ raw: raw.trim(), text: raw.replace(/\s+/g, ' ').trim() }))
+    .filter((s) => s.text);
+
+  const chunks: string[] = [];
+  let current: string[] = [];
+  let length = 0;
+  for (const { raw, text: sentence } of sentences) {
+    if (sentence.length > maxChars) {
+      if (current.length > 0) chunks.push(current.join(' '));
+      chunks.push(...(await splitter.splitText(raw)));
+      current = [];
+      length = 0;
+      continue;
+    }
+    if (current.length > 0 && length + sentence.length + 1 > maxChars) {
+      chunks.push(current.join(' '));
+      const overlap = current[current.length - 1];
+      current = overlap.length + sentence.length + 1 <= maxChars ? [overlap] : [];
+      length = current.reduce((sum, s) => sum + s.length + 1, 0);
+    }
+    current.push(sentence);
+    length += sentence.length + 1;
+  }
+  if (current.length > 0) chunks.push(current.join(' '));
+
+  return chunks.map((text) => new Document({ pageContent: text, metadata: { ...doc.metadata } }));
+}
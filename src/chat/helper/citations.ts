@@ -0,0 +1,51 @@
+import { basename } from 'path';
+import type { RankedChunk } from './rerank';
+
+/** Where part of an answer came from: the uploaded file, its page (PDFs) and the matched text. */
+export interface Citation {
+  file: string;
+  /** 1-based PDF page; absent for formats without pages. */
+  page?: number;
+  snippet: string;
+  /** Retrieval score: cosine similarity, BM25 or RRF depending on the mode (higher is closer). */
+  score: number;
+  /** Reranker relevance in [0, 1], when reranking is enabled. */
+  rerankScore?: number;
+  documentId?: string;
+}
+
+const SNIPPET_LENGTH = 240;
+
+function snippetOf(text: string): string {
+  const flat = text.replace(/\s+/g, ' ').trim();
+  return flat.length > SNIPPET_LENGTH ? `${flat.slice(0, SNIPPET_LENGTH)}...` : flat;
+}
+
+/**
+ * Turn ranked retrieval results (best first) into citations. Several chunks of the same page
+ * collapse into one citation (the best-ranked chunk supplies the snippet).
+ */
+export function buildCitations(ranked: RankedChunk[], limit = 10): Citation[] {
+  const byPage = new Map<string, Citation>();
+
+  for (const { doc, score, rerankScore } of ranked) {
+    const meta = doc.metadata ?? {};
+    const source = meta.source as string | undefined;
+    const file = (meta.filename as string | undefined) ?? (source ? basename(source) : 'inline');
+    const page = typeof meta.page === 'number' ? meta.page : undefined;
+    const documentId = meta.documentId as string | undefined;
+
+    const key = `${documentId ?? file}#${page ?? ''}`;
+    if (byPage.has(key)) continue;
+    byPage.set(key, {
+      file,
+      page,
+      snippet: snippetOf(doc.pageContent),
+      score,
+      ...(rerankScore != null ? { rerankScore } : {}),
+      documentId,
+    });
+  }
+
+  return [...byPage.values()].slice(0, limit);
+}
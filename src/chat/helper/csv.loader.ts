@@ -0,0 +1,29 @@
+import { Document } from '@langchain/core/documents';
+import { CSVLoader } from '@langchain/community/document_loaders/fs/csv';
+
+/**
+ * Load a CSV as one Document where every row is a self-describing block
+ * ("invoice: 189012\ncustomer: ACME\n..."), rows separated by blank lines so the splitter
+ * keeps rows intact and each chunk still carries its column names.
+ */
+export async function loadCsvAsDocuments(filePath: string): Promise<Document[]> {
+  const rows = await new CSVLoader(filePath).load();
+  if (rows.length === 0) return [];
+
+  const columns = rows[0].pageContent
+    .split('\n')
+    .map((line) => line.split(':')[0].trim())
+    .filter(Boolean);
+
+  return [
+    new Document({
+      pageContent: rows.map((r) => r.pageContent.trim()).join('\n\n'),
+      metadata: {
+        source: filePath,
+        fileType: 'csv',
+        rowCount: rows.length,
+        columns,
+      },
+    }),
+  ];
+}
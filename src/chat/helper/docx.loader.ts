@@ -0,0 +1,32 @@
+import { Document } from '@langchain/core/documents';
+import { DocxLoader } from '@langchain/community/document_loaders/fs/docx';
+import { extname } from 'path';
+
+/**
+ * Load a Word document (.docx via mammoth, legacy .doc via word-extractor) as one Document.
+ * Word output tends to contain runs of blank lines between paragraphs and table cells; they
+ * are collapsed so the splitter's paragraph separator stays meaningful.
+ */
+export async function loadDocxAsDocuments(filePath: string): Promise<Document[]> {
+  const type = extname(filePath).toLowerCase() === '.doc' ? 'doc' : 'docx';
+  const docs = await new DocxLoader(filePath, { type }).load();
+  const text = docs
+    .map((d) => d.pageContent)
+    .join('\n\n')
+    .replace(/[ \t]+\n/g, '\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+  if (!text) return [];
+
+  return [
+    new Document({
+      pageContent: text,
+      metadata: {
+        source: filePath,
+        fileType: type,
+        // First non-empty line is usually the document heading.
+        title: text.split('\n')[0].slice(0, 200),
+      },
+    }),
+  ];
+}
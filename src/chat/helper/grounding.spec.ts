@@ -0,0 +1,37 @@
+import { Document } from '@langchain/core/documents';
+import { FakeListChatModel } from '@langchain/core/utils/testing';
+import { splitClaims, verifyGrounding } from './grounding';
+
+describe('grounding', () => {
+  const answer = [
+    'Order ORD-1001 shipped via FastExpress. The tracking ID is FX-123456789.',
+    'Details:',
+    '- It was delivered on March 3.',
+  ].join('\n');
+
+  it('splits answers into sentence and list-item claims', () => {
+    expect(splitClaims(answer)).toEqual([
+      'Order ORD-1001 shipped via FastExpress.',
+      'The tracking ID is FX-123456789.',
+      'It was delivered on March 3.',
+    ]);
+  });
+
+  it('scores supported claims and lists the unsupported ones', async () => {
+    const llm = new FakeListChatModel({
+      responses: ['[{"statement": 1, "supported": true}, {"statement": 2, "supported": "true"}]'],
+    });
+    const context = [new Document({ pageContent: 'ORD-1001 carrier FastExpress, tracking FX-123456789' })];
+
+    expect(await verifyGrounding(llm, answer, context)).toEqual({
+      score: 0.67,
+      claims: 3,
+      unsupported: ['It was delivered on March 3.'],
+    });
+  });
+
+  it('skips the model call when the answer makes no claims', async () => {
+    const llm = new FakeListChatModel({ responses: ['not json'] });
+    await expect(verifyGrounding(llm, '', [])).resolves.toEqual({ score: 1, claims: 0, unsupported: [] });
+  });
+});
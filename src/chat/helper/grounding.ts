@@ -0,0 +1,128 @@
+import { z } from 'zod/v4';
+import type { Document } from '@langchain/core/documents';
+import type { BaseChatModel } from '@langchain/core/language_models/chat_models';
+import { ChatPromptTemplate } from '@langchain/core/prompts';
+import { JsonOutputParser, StringOutputParser } from '@langchain/core/output_parsers';
+import { SENTENCE_BREAK } from './chunking';
+
+/** Result of checking an answer's claims against the context it was generated from. */
+export interface GroundingReport {
+  /** Share of claims the context supports, in [0, 1]; 1 when the answer makes no claims. */
+  score: number;
+  claims: number;
+  /** Answer sentences the verifier found no support for, in answer order. */
+  unsupported: string[];
+}
+
+/**
+ * The answer's claims: one per sentence or list item. Headings ("Details:") and fragments
+ * without words are left out.
+ */
+export function splitClaims(answer: string): string[] {
+  return answer
+    .split(/\n+/)
+    .flatMap((line) => line.split(SENTENCE_BREAK))
+    .map((s) => s.replace(/^\s*(?:[-*•]|\d+[.)])\s+/, '').trim())
+    .filter((s) => /[A-Za-z0-9]/.test(s) && !s.endsWith(':'));
+}
+
+const VERDICT_PROMPT = ChatPromptTemplate.fromMessages([
+  [
+    'system',
+    [
+      'You check whether numbered statements are supported by numbered context snippets.',
+      'A statement is supported when the snippets state it or it follows directly from them',
+      '(rephrasing, sums, unit or date conversions).',
+      'A statement that something is unknown or not in the documents counts as supported.',
+      'Reply with a JSON array and nothing else, one entry per statement:',
+      '[{{"statement": 1, "supported": true}}, {{"statement": 2, "supported": false}}]',
+    ].join(' '),
+  ],
+  ['human', 'Context snippets:\n{context}\n\nStatements:\n{statements}'],
+]);
+
+const verdictsSchema = z.array(
+  z.object({
+    statement: z.coerce.number().int(),
+    supported: z.preprocess((v) => v === true || v === 'true' || v === 'yes', z.boolean()),
+  }),
+);
+
+/**
+ * Verify every claim against the context in one chat model call. Claims the reply does not
+ * mention count as unsupported.
+ */
+export async function verifyGrounding(
+  llm: BaseChatModel,
+  answer: string,
+  contextDocs: Document[],
+  signal?: AbortSignal,
+): Promise<GroundingReport> {
+  const claims = splitClaims(answer);
+  if (claims.length === 0) return { score: 1, claims: 0, unsupported: [] };
+
+  const reply = await VERDICT_PROMPT.pipe(llm)
+    .pipe(new JsonOutputParser())
+    .invoke(
+      {
+        context: contextDocs.map((doc, i) => `[${i + 1}] ${doc.pageContent}`).join('\n\n'),
+        statements: claims.map((claim, i) => `${i + 1}. ${claim}`).join('\n'),
+      },
+      { signal },
+    );
+  const parsed = verdictsSchema.safeParse(reply);
+  if (!parsed.success) {
+    throw new Error(`Grounding check returned invalid JSON: ${z.prettifyError(parsed.error)}`);
+  }
+
+  const supported = new Set(parsed.data.filter((v) => v.supported).map((v) => v.statement));
+  const unsupported = claims.filter((_, i) => !supported.has(i + 1));
+  return {
+    score: Math.round(((claims.length - unsupported.length) / claims.length) * 100) / 100,
+    claims: claims.length,
+    unsupported,
+  };
+}
+
+const REWRITE_PROMPT = ChatPromptTemplate.fromMessages([
+  [
+    'system',
+    [
+      'An answer to the question contained statements the retrieved documents did not support.',
+      'Write one search query that would find the documents needed to answer the question and',
+      'check those statements. Keep exact order numbers, invoice numbers, names and products.',
+      'Return only the query.',
+    ].join(' '),
+  ],
+  ['human', 'Question: {question}\n\nUnsupported statements:\n{unsupported}'],
+]);
+
+/** Search query aimed at the unsupported statements; the question itself when the reply is empty. */
+export async function rewriteQueryForClaims(
+  llm: BaseChatModel,
+  question: string,
+  unsupported: string[],
+  signal?: AbortSignal,
+): Promise<string> {
+  const reply = await REWRITE_PROMPT.pipe(llm)
+    .pipe(new StringOutputParser())
+    .invoke({ question, unsupported: unsupported.map((s) => `- ${s}`).join('\n') }, { signal });
+  const query = reply.trim().replace(/^["']|["']$/g, '');
+  return query || question;
+}
+
+/**
+ * The answer prompt followed by the rejected answer and a request to answer again without the
+ * unsupported statements. Adds the `previousAnswer` and `unsupported` variables.
+ */
+export function withCorrectionRequest(prompt: ChatPromptTemplate): ChatPromptTemplate {
+  return ChatPromptTemplate.fromMessages([
+    ...prompt.promptMessages,
+    ['ai', '{previousAnswer}'],
+    [
+      'human',
+      'These statements in your answer are not supported by the context:\n{unsupported}\n\n' +
+        'Answer the question again using only the context. Leave out anything it does not state.',
+    ],
+  ]);
+}
@@ -0,0 +1,6 @@
+import { createHash } from 'crypto';
+
+/** Hex sha256 of a text, used as the content hash of documents and chunks. */
+export function sha256(text: string): string {
+  return createHash('sha256').update(text, 'utf8').digest('hex');
+}
@@ -0,0 +1,45 @@
+import { Document } from '@langchain/core/documents';
+import { readFile } from 'fs/promises';
+import { convert } from 'html-to-text';
+
+function decodeEntities(text: string): string {
+  return convert(text, { wordwrap: false }).trim();
+}
+
+/**
+ * Convert an HTML page to plain text (scripts, styles, images and link targets dropped,
+ * tables kept row by row) and record its <title> and meta description.
+ */
+export async function loadHtmlAsDocuments(filePath: string): Promise<Document[]> {
+  const html = await readFile(filePath, 'utf8');
+
+  const text = convert(html, {
+    wordwrap: false,
+    selectors: [
+      { selector: 'a', options: { ignoreHref: true } },
+      { selector: 'img', format: 'skip' },
+      { selector: 'nav', format: 'skip' },
+      { selector: 'table', format: 'dataTable' },
+    ],
+  })
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+  if (!text) return [];
+
+  const title = html.match(/<title[^>]*>([\s\S]*?)<\/title>/i)?.[1];
+  const description = html.match(
+    /<meta[^>]+name=["']description["'][^>]+content=["']([^"']*)["']/i,
+  )?.[1];
+
+  return [
+    new Document({
+      pageContent: text,
+      metadata: {
+        source: filePath,
+        fileType: 'html',
+        ...(title ? { title: decodeEntities(title) } : {}),
+        ...(description ? { description: decodeEntities(description) } : {}),
+      },
+    }),
+  ];
+}
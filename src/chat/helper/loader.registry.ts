@@ -0,0 +1,90 @@
+import { Document } from '@langchain/core/documents';
+import { extname } from 'path';
+import { loadPdfAsDocuments } from './pdf.loader';
+import { loadDocxAsDocuments } from './docx.loader';
+import { loadMarkdownAsDocuments, loadTextAsDocuments } from './text.loader';
+import { loadHtmlAsDocuments } from './html.loader';
+import { loadCsvAsDocuments } from './csv.loader';
+
+export type FileLoader = (filePath: string) => Promise<Document[]>;
+
+interface LoaderEntry {
+  fileType: string;
+  extensions: string[];
+  mimeTypes: string[];
+  load: FileLoader;
+}
+
+const LOADERS: LoaderEntry[] = [
+  { fileType: 'pdf', extensions: ['.pdf'], mimeTypes: ['application/pdf'], load: loadPdfAsDocuments },
+  {
+    fileType: 'docx',
+    extensions: ['.docx', '.doc'],
+    mimeTypes: [
+      'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+      'application/msword',
+    ],
+    load: loadDocxAsDocuments,
+  },
+  {
+    fileType: 'markdown',
+    extensions: ['.md', '.markdown'],
+    mimeTypes: ['text/markdown', 'text/x-markdown'],
+    load: loadMarkdownAsDocuments,
+  },
+  { fileType: 'html', extensions: ['.html', '.htm'], mimeTypes: ['text/html'], load: loadHtmlAsDocuments },
+  {
+    fileType: 'csv',
+    extensions: ['.csv'],
+    // Not application/vnd.ms-excel: browsers send it for .csv and .xls alike, so .csv goes by extension.
+    mimeTypes: ['text/csv', 'application/csv'],
+    load: loadCsvAsDocuments,
+  },
+  { fileType: 'text', extensions: ['.txt', '.text', '.log'], mimeTypes: ['text/plain'], load: loadTextAsDocuments },
+];
+
+/** Extensions accepted for upload / ingest, e.g. for the upload file filter. */
+export const SUPPORTED_EXTENSIONS = LOADERS.flatMap((l) => l.extensions);
+
+/**
+ * Pick a loader: a specific MIME type wins, then the file extension (browsers often send
+ * text/plain or application/octet-stream for .md/.csv), then any other text/* as plain text.
+ */
+function resolveLoader(filename: string, mimeType?: string): LoaderEntry | undefined {
+  const mime = mimeType?.toLowerCase().split(';')[0].trim();
+  const ext = extname(filename).toLowerCase();
+
+  const byMime =
+    mime && mime !== 'text/plain' ? LOADERS.find((l) => l.mimeTypes.includes(mime)) : undefined;
+  if (byMime) return byMime;
+
+  const byExt = LOADERS.find((l) => l.extensions.includes(ext));
+  if (byExt) return byExt;
+
+  return mime?.startsWith('text/') ? LOADERS.find((l) => l.fileType === 'text') : undefined;
+}
+
+export function isSupportedFile(filename: string, mimeType?: string): boolean {
+  return resolveLoader(filename, mimeType) != null;
+}
+
+/**
+ * Load a file with the loader matching its MIME type / extension. `filename` is the
+ * user-facing name (uploads are stored under generated names) and defaults to the path.
+ */
+export async function loadFileAsDocuments(
+  filePath: string,
+  options: { filename?: string; mimeType?: string } = {},
+): Promise<Document[]> {
+  const filename = options.filename ?? filePath;
+  const loader = resolveLoader(filename, options.mimeType);
+  if (!loader) {
+    throw new Error(
+      `Unsupported file type: ${filename}. Supported: ${SUPPORTED_EXTENSIONS.join(', ')}`,
+    );
+  }
+  const docs = await loader.load(filePath);
+  return docs.map(
+    (d) => new Document({ pageContent: d.pageContent, metadata: { fileType: loader.fileType, ...d.metadata } }),
+  );
+}
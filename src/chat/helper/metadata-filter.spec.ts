@@ -0,0 +1,42 @@
+import { Document } from '@langchain/core/documents';
+import { toMetadataPredicate, toQdrantFilter, validateMetadataFilter } from './metadata-filter';
+
+const doc = (metadata: Record<string, unknown>) => new Document({ pageContent: '', metadata });
+
+describe('metadata filter', () => {
+  const filter = {
+    docType: 'invoice',
+    customer: ['ACME', 'Globex'],
+    date: { gte: '2024-01-01' },
+    status: { ne: 'void' },
+  };
+
+  it('translates to a Qdrant payload filter under the metadata key', () => {
+    expect(toQdrantFilter(filter)).toEqual({
+      must: [
+        { key: 'metadata.docType', match: { value: 'invoice' } },
+        { key: 'metadata.customer', match: { any: ['ACME', 'Globex'] } },
+        { key: 'metadata.date', datetime_range: { gte: '2024-01-01' } },
+      ],
+      must_not: [{ key: 'metadata.status', match: { value: 'void' } }],
+    });
+    expect(toQdrantFilter({ total: { gt: 100 } })).toEqual({
+      must: [{ key: 'metadata.total', range: { gt: 100 } }],
+    });
+  });
+
+  it('matches documents with the equivalent predicate', () => {
+    const matches = toMetadataPredicate(filter);
+    expect(matches(doc({ docType: 'invoice', customer: 'ACME', date: '2024-03-05' }))).toBe(true);
+    expect(matches(doc({ docType: 'invoice', customer: 'ACME', date: '2023-12-31' }))).toBe(false);
+    expect(matches(doc({ docType: 'invoice', customer: 'Initech', date: '2024-03-05' }))).toBe(false);
+    expect(
+      matches(doc({ docType: 'invoice', customer: 'ACME', date: '2024-03-05', status: 'void' })),
+    ).toBe(false);
+  });
+
+  it('reports unknown operators', () => {
+    expect(validateMetadataFilter({ total: { between: [1, 2] } })).toMatch(/unknown operator "between"/);
+    expect(validateMetadataFilter(filter)).toBeUndefined();
+  });
+});
@@ -0,0 +1,160 @@
+import type { Document } from '@langchain/core/documents';
+
+/**
+ * Filter on chunk metadata (ingest `meta`, plus loader fields such as `filename` or `page`).
+ *
+ * Each key is a metadata field, and dots reach into nested objects. All conditions must hold.
+ * - `{ docType: 'invoice' }` — equality
+ * - `{ customer: ['ACME', 'Globex'] }` — any of
+ * - `{ total: { gte: 100, lt: 500 } }`, `{ date: { gte: '2024-01-01' } }` — ranges on numbers or dates
+ * - `{ status: { ne: 'void' } }`, `{ region: { nin: ['EU'] } }` — exclusions
+ */
+export type MetadataFilter = Record<string, unknown>;
+
+type Scalar = string | number | boolean;
+
+const RANGE_OPS = ['gt', 'gte', 'lt', 'lte'] as const;
+const OPERATORS = new Set<string>(['eq', 'ne', 'in', 'nin', ...RANGE_OPS]);
+
+type RangeOp = (typeof RANGE_OPS)[number];
+
+interface Condition {
+  field: string;
+  eq?: Scalar;
+  ne?: Scalar;
+  in?: Scalar[];
+  nin?: Scalar[];
+  range?: Partial<Record<RangeOp, number | string>>;
+}
+
+const isScalar = (v: unknown): v is Scalar =>
+  typeof v === 'string' || typeof v === 'number' || typeof v === 'boolean';
+
+/** Parse the filter into conditions; throws an Error describing the first invalid entry. */
+function toConditions(filter: MetadataFilter): Condition[] {
+  return Object.entries(filter).map(([field, spec]) => {
+    if (!/^[\w-]+(\.[\w-]+)*$/.test(field)) throw new Error(`Invalid filter field "${field}"`);
+    if (isScalar(spec)) return { field, eq: spec };
+    if (Array.isArray(spec)) {
+      if (!spec.every(isScalar)) throw new Error(`Filter "${field}": list values must be scalars`);
+      return { field, in: spec };
+    }
+    if (spec == null || typeof spec !== 'object') {
+      throw new Error(`Filter "${field}": expected a value, a list or an operator object`);
+    }
+
+    const condition: Condition = { field };
+    for (const [op, value] of Object.entries(spec)) {
+      if (!OPERATORS.has(op)) {
+        throw new Error(`Filter "${field}": unknown operator "${op}" (use ${[...OPERATORS].join(', ')})`);
+      }
+      if (op === 'in' || op === 'nin') {
+        if (!Array.isArray(value) || !value.every(isScalar)) {
+          throw new Error(`Filter "${field}": "${op}" expects a list of scalars`);
+        }
+        condition[op] = value;
+      } else if (op === 'eq' || op === 'ne') {
+        if (!isScalar(value)) throw new Error(`Filter "${field}": "${op}" expects a scalar`);
+        condition[op] = value;
+      } else {
+        if (typeof value !== 'number' && (typeof value !== 'string' || Number.isNaN(Date.parse(value)))) {
+          throw new Error(`Filter "${field}": "${op}" expects a number or a date string`);
+        }
+        condition.range = { ...condition.range, [op]: value };
+      }
+    }
+    return condition;
+  });
+}
+
+/** Validation message for an invalid filter, or undefined when it is usable. */
+export function validateMetadataFilter(filter: MetadataFilter): string | undefined {
+  try {
+    toConditions(filter);
+    return undefined;
+  } catch (err) {
+    return err instanceof Error ? err.message : String(err);
+  }
+}
+
+type QdrantCondition = Record<string, unknown>;
+
+/** Conditions may be nested filters (e.g. a `should` group inside `must`). */
+export interface QdrantFilter {
+  must?: (QdrantCondition | QdrantFilter)[];
+  should?: QdrantCondition[];
+  must_not?: QdrantCondition[];
+}
+
+/**
+ * Qdrant payload filter. LangChain stores chunk metadata under the `metadata` payload key.
+ * Numeric bounds use `range`, and date strings use `datetime_range`.
+ */
+export function toQdrantFilter(filter: MetadataFilter): QdrantFilter {
+  const must: QdrantCondition[] = [];
+  const mustNot: QdrantCondition[] = [];
+
+  for (const c of toConditions(filter)) {
+    const key = `metadata.${c.field}`;
+    if (c.eq !== undefined) must.push({ key, match: { value: c.eq } });
+    if (c.in) must.push({ key, match: { any: c.in } });
+    if (c.ne !== undefined) mustNot.push({ key, match: { value: c.ne } });
+    if (c.nin) mustNot.push({ key, match: { any: c.nin } });
+    if (c.range) {
+      const numeric = Object.values(c.range).every((v) => typeof v === 'number');
+      must.push({ key, [numeric ? 'range' : 'datetime_range']: c.range });
+    }
+  }
+
+  return {
+    ...(must.length ? { must } : {}),
+    ...(mustNot.length ? { must_not: mustNot } : {}),
+  };
+}
+
+function valueAt(metadata: Record<string, unknown>, path: string): unknown {
+  let value: unknown = metadata;
+  for (const key of path.split('.')) {
+    if (value == null || typeof value !== 'object') return undefined;
+    value = (value as Record<string, unknown>)[key];
+  }
+  return value;
+}
+
+/** Numbers compare numerically, date strings by timestamp. Undefined when not comparable. */
+function compare(actual: unknown, bound: number | string): number | undefined {
+  if (typeof bound === 'number') {
+    const n = typeof actual === 'number' ? actual : typeof actual === 'string' ? Number(actual) : NaN;
+    return Number.isNaN(n) ? undefined : n - bound;
+  }
+  const t = typeof actual === 'string' || typeof actual === 'number' ? new Date(actual).getTime() : NaN;
+  return Number.isNaN(t) ? undefined : t - Date.parse(bound);
+}
+
+function matchesCondition(metadata: Record<string, unknown>, c: Condition): boolean {
+  const actual = valueAt(metadata, c.field);
+  const values = Array.isArray(actual) ? actual : [actual];
+  const hasAny = (candidates: Scalar[]) => values.some((v) => candidates.includes(v as Scalar));
+
+  if (c.eq !== undefined && !hasAny([c.eq])) return false;
+  if (c.in && !hasAny(c.in)) return false;
+  if (c.ne !== undefined && hasAny([c.ne])) return false;
+  if (c.nin && hasAny(c.nin)) return false;
+  if (c.range) {
+    for (const [op, bound] of Object.entries(c.range) as [RangeOp, number | string][]) {
+      const diff = compare(actual, bound);
+      if (diff === undefined) return false;
+      if (op === 'gt' && !(diff > 0)) return false;
+      if (op === 'gte' && !(diff >= 0)) return false;
+      if (op === 'lt' && !(diff < 0)) return false;
+      if (op === 'lte' && !(diff <= 0)) return false;
+    }
+  }
+  return true;
+}
+
+/** The same filter as a predicate, for MemoryVectorStore and the keyword index. */
+export function toMetadataPredicate(filter: MetadataFilter): (doc: Document) => boolean {
+  const conditions = toConditions(filter);
+  return (doc) => conditions.every((c) => matchesCondition(doc.metadata ?? {}, c));
+}
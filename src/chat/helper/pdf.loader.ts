@@ -13,6 +13,21 @@ function extractAcroFormValues(filePath: string): string[] {
     .filter((v) => v.length > 0);
 }
 
+/**
+ * AcroForm fields by name (`/T`) with their values (`/V`), read per PDF object. Used for
+ * structured extraction, where the field name says what a value means.
+ */
+export function extractAcroFormFields(filePath: string): Record<string, string> {
+  const raw = readFileSync(filePath, 'latin1');
+  const fields: Record<string, string> = {};
+  for (const [, body] of raw.matchAll(/\d+\s+\d+\s+obj([\s\S]*?)endobj/g)) {
+    const name = /\/T\s*\(([^)]*)\)/.exec(body)?.[1]?.trim();
+    const value = /\/V\s*\(([^)]*)\)/.exec(body)?.[1]?.trim();
+    if (name && value) fields[name] = value;
+  }
+  return fields;
+}
+
 /**
  * Detect if a PDF is a fillable form with blank template text.
  * Checks: has AcroForm fields AND text is dominated by underscores/blanks.
@@ -44,31 +59,45 @@ function cleanExtractedText(text: string): string {
     .join('\n');
 }
 
+/**
+ * Load a PDF as one Document per page, with `page` (1-based) and `totalPages` in metadata so
+ * chunks can be cited by page. Blank fillable forms have no page text; their AcroForm values
+ * come back as a single document without a page.
+ */
 export async function loadPdfAsDocuments(
   filePath: string,
 ): Promise<Document[]> {
   const loader = new PDFLoader(filePath, {
-    splitPages: false,
+    splitPages: true,
     parsedItemSeparator: '\n',
   });
-  const docs = await loader.load();
-  const baseText = docs.map((d) => d.pageContent).join('\n');
-
-  let finalText: string;
+  const pages = await loader.load();
+  const baseText = pages.map((d) => d.pageContent).join('\n');
+  const totalPages = (pages[0]?.metadata?.pdf?.totalPages as number | undefined) ?? pages.length;
 
   if (isBlankFormPdf(filePath, baseText)) {
     const formValues = [...new Set(extractAcroFormValues(filePath))];
-    finalText = formValues.length > 0
-      ? formValues.join('\n')
-      : baseText;
-  } else {
-    finalText = cleanExtractedText(baseText);
+    if (formValues.length > 0) {
+      return [
+        new Document({
+          pageContent: formValues.join('\n'),
+          metadata: { source: filePath, totalPages },
+        }),
+      ];
+    }
   }
 
-  return [
-    new Document({
-      pageContent: finalText,
-      metadata: { source: filePath },
-    }),
-  ];
-}
\ No newline at end of file
+  return pages
+    .map(
+      (page) =>
+        new Document({
+          pageContent: cleanExtractedText(page.pageContent),
+          metadata: {
+            source: filePath,
+            page: page.metadata?.loc?.pageNumber as number,
+            totalPages,
+          },
+        }),
+    )
+    .filter((page) => page.pageContent.length > 0);
+}
@@ -0,0 +1,32 @@
+import { FakeListChatModel } from '@langchain/core/utils/testing';
+import { expandQuery } from './query-expansion';
+
+describe('expandQuery', () => {
+  const question = 'ACME refund?';
+
+  it('keeps the question first and dedupes paraphrases', async () => {
+    const llm = new FakeListChatModel({
+      responses: ['1. ACME refund policy\n- acme refund?\n"Refund terms for ACME orders"\nRefund window ACME'],
+    });
+    expect(await expandQuery(llm, 'multi-query', question, { count: 3 })).toEqual({
+      expansion: 'multi-query',
+      queries: ['ACME refund?', 'ACME refund policy', 'Refund terms for ACME orders'],
+    });
+  });
+
+  it('searches with the rewrite, falling back to the question when it is empty', async () => {
+    const llm = new FakeListChatModel({ responses: ['"ACME refund policy and return window"', '  '] });
+    expect((await expandQuery(llm, 'rewrite', question)).queries).toEqual(['ACME refund policy and return window']);
+    expect((await expandQuery(llm, 'rewrite', question)).queries).toEqual([question]);
+  });
+
+  it('adds a hypothetical answer for HyDE and keeps the question for keyword search', async () => {
+    const passage = 'Refunds for ACME orders are issued within 30 days of delivery.';
+    const llm = new FakeListChatModel({ responses: [passage] });
+    expect(await expandQuery(llm, 'hyde', question)).toEqual({
+      expansion: 'hyde',
+      queries: [question],
+      hypotheticalAnswer: passage,
+    });
+  });
+});
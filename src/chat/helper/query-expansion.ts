@@ -0,0 +1,95 @@
+import type { BaseChatModel } from '@langchain/core/language_models/chat_models';
+import { ChatPromptTemplate } from '@langchain/core/prompts';
+import { StringOutputParser } from '@langchain/core/output_parsers';
+import type { QueryExpansion } from '../dto/ask.dto';
+
+/** What retrieval searches with after expansion. */
+export interface ExpandedQuery {
+  expansion: QueryExpansion;
+  /** One retrieval per query; several result lists are merged by reciprocal rank fusion. */
+  queries: string[];
+  /** HyDE: a hypothetical answer embedded for vector search in place of the question. */
+  hypotheticalAnswer?: string;
+}
+
+const REWRITE_PROMPT = ChatPromptTemplate.fromMessages([
+  [
+    'system',
+    [
+      'Rewrite the question as a search query for a knowledge base of orders, invoices,',
+      'shipping notes and company policies. Spell out what is being asked, add likely',
+      'document terms (e.g. "carrier", "tracking number", "refund policy") and keep exact order',
+      'numbers, invoice numbers, names and products. Return only the query.',
+    ].join(' '),
+  ],
+  ['human', '{question}'],
+]);
+
+const PARAPHRASE_PROMPT = ChatPromptTemplate.fromMessages([
+  [
+    'system',
+    [
+      'Write {count} different search queries that together cover what the question asks,',
+      'using different wording and document terms. Keep exact order numbers, invoice numbers,',
+      'names and products. Return one query per line, without numbering or explanations.',
+    ].join(' '),
+  ],
+  ['human', '{question}'],
+]);
+
+const HYDE_PROMPT = ChatPromptTemplate.fromMessages([
+  [
+    'system',
+    [
+      'Write a short passage (2–4 sentences) from a business document such as an invoice,',
+      'shipping note or policy that would answer the question. Invent plausible details where',
+      'needed; the passage is only used to search for similar documents.',
+    ].join(' '),
+  ],
+  ['human', '{question}'],
+]);
+
+const clean = (line: string) =>
+  line
+    .replace(/^\s*(?:[-*•]|\d+[.)])\s*/, '')
+    .trim()
+    .replace(/^["']|["']$/g, '');
+
+/**
+ * Turn the (standalone) question into the queries retrieval should run.
+ * - `rewrite`: one LLM-rewritten search query replaces the question.
+ * - `multi-query`: the question plus `count` paraphrases.
+ * - `hyde`: the question, with a hypothetical answer embedded for vector search. Keyword search
+ *   keeps the question, so exact IDs still match.
+ */
+export async function expandQuery(
+  llm: BaseChatModel,
+  expansion: QueryExpansion,
+  question: string,
+  options: { count?: number; signal?: AbortSignal } = {},
+): Promise<ExpandedQuery> {
+  const { count = 3, signal } = options;
+  const ask = (prompt: ChatPromptTemplate, values: Record<string, unknown>) =>
+    prompt.pipe(llm).pipe(new StringOutputParser()).invoke(values, { signal });
+
+  switch (expansion) {
+    case 'rewrite': {
+      const rewritten = clean(await ask(REWRITE_PROMPT, { question }));
+      return { expansion, queries: [rewritten || question] };
+    }
+    case 'multi-query': {
+      const reply = await ask(PARAPHRASE_PROMPT, { question, count });
+      const paraphrases = reply.split('\n').map(clean).filter(Boolean).slice(0, count);
+      const queries = [question, ...paraphrases].filter(
+        (q, i, all) => all.findIndex((other) => other.toLowerCase() === q.toLowerCase()) === i,
+      );
+      return { expansion, queries };
+    }
+    case 'hyde': {
+      const passage = (await ask(HYDE_PROMPT, { question })).trim();
+      return { expansion, queries: [question], ...(passage ? { hypotheticalAnswer: passage } : {}) };
+    }
+    default:
+      return { expansion: 'none', queries: [question] };
+  }
+}
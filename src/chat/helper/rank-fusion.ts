@@ -0,0 +1,30 @@
+import type { Document } from '@langchain/core/documents';
+
+/** Identity of a chunk across retrievers: documentId + chunkIndex, else its text. */
+function chunkKey(doc: Document): string {
+  const { documentId, chunkIndex } = doc.metadata ?? {};
+  return documentId != null && chunkIndex != null
+    ? `${documentId}#${chunkIndex}`
+    : doc.pageContent;
+}
+
+/**
+ * Reciprocal rank fusion: every ranked list contributes 1 / (k + rank) per chunk, so chunks
+ * ranked well by several retrievers rise to the top regardless of how each one scales its
+ * scores. Returns the fused list with the RRF score, best first.
+ */
+export function reciprocalRankFusion(
+  rankings: [Document, number][][],
+  k = 60,
+): [Document, number][] {
+  const fused = new Map<string, [Document, number]>();
+  for (const ranking of rankings) {
+    ranking.forEach(([doc], rank) => {
+      const key = chunkKey(doc);
+      const entry = fused.get(key) ?? [doc, 0];
+      entry[1] += 1 / (k + rank + 1);
+      fused.set(key, entry);
+    });
+  }
+  return [...fused.values()].sort((a, b) => b[1] - a[1]);
+}
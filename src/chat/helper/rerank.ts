@@ -0,0 +1,135 @@
+import type { Document } from '@langchain/core/documents';
+import type { BaseChatModel } from '@langchain/core/language_models/chat_models';
+import { ChatPromptTemplate } from '@langchain/core/prompts';
+import { StringOutputParser } from '@langchain/core/output_parsers';
+
+/** A retrieved chunk with its retrieval score and, after reranking, its relevance score. */
+export interface RankedChunk {
+  doc: Document;
+  score: number;
+  /** Relevance to the question in [0, 1] from the reranker. */
+  rerankScore?: number;
+}
+
+/**
+ * Scores (question, chunk) pairs; one score in [0, 1] per document, in input order. `model` is the
+ * request's chat model override, for rerankers that use the chat model.
+ */
+export interface Reranker {
+  readonly name: string;
+  score(question: string, docs: Document[], model?: string): Promise<number[]>;
+}
+
+/** Runs one LLM call with retries, timeout and fallback models (ModelProviderService.runWithFallback). */
+export type RunChatModel = <T>(
+  model: string | undefined,
+  call: (llm: BaseChatModel, signal: AbortSignal) => Promise<T>,
+) => Promise<{ result: T }>;
+
+const RELEVANCE_PROMPT = ChatPromptTemplate.fromMessages([
+  [
+    'system',
+    [
+      'You grade how useful a document snippet is for answering a question.',
+      'Reply with a single integer from 0 (irrelevant) to 10 (directly answers the question).',
+      'Reply with the number only.',
+    ].join(' '),
+  ],
+  ['human', 'Question:\n{question}\n\nSnippet:\n{snippet}'],
+]);
+
+/** Relevance-scoring prompt through the chat model: one short call per chunk. */
+export class LlmReranker implements Reranker {
+  readonly name = 'llm';
+
+  constructor(
+    private readonly runModel: RunChatModel,
+    private readonly concurrency = 4,
+  ) { }
+
+  async score(question: string, docs: Document[], model?: string): Promise<number[]> {
+    const scores: number[] = [];
+    for (let i = 0; i < docs.length; i += this.concurrency) {
+      const batch = docs.slice(i, i + this.concurrency);
+      const { result: replies } = await this.runModel(model, (llm, signal) =>
+        RELEVANCE_PROMPT.pipe(llm)
+          .pipe(new StringOutputParser())
+          .batch(
+            batch.map((doc) => ({ question, snippet: doc.pageContent })),
+            { signal },
+          ),
+      );
+      scores.push(...replies.map(parseGrade));
+    }
+    return scores;
+  }
+}
+
+/** First number in the reply, 0–10 mapped to [0, 1]; unparseable replies count as irrelevant. */
+function parseGrade(reply: string): number {
+  const match = reply.match(/\d+(?:\.\d+)?/);
+  if (!match) return 0;
+  return Math.min(Math.max(parseFloat(match[0]) / 10, 0), 1);
+}
+
+/**
+ * Local cross-encoder behind an HTTP `/rerank` endpoint (Hugging Face text-embeddings-inference,
+ * Infinity, or any Cohere/Jina-compatible server). Accepts both `[{ index, score }]` and
+ * `{ results: [{ index, relevance_score }] }` responses.
+ */
+export class CrossEncoderReranker implements Reranker {
+  readonly name = 'cross-encoder';
+
+  constructor(
+    private readonly baseUrl: string,
+    private readonly model?: string,
+  ) { }
+
+  async score(question: string, docs: Document[]): Promise<number[]> {
+    const texts = docs.map((d) => d.pageContent);
+    const res = await fetch(`${this.baseUrl.replace(/\/$/, '')}/rerank`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        query: question,
+        texts,
+        documents: texts,
+        ...(this.model ? { model: this.model } : {}),
+      }),
+      signal: AbortSignal.timeout(30000),
+    });
+    if (!res.ok) {
+      throw new Error(`Reranker responded ${res.status}: ${await res.text()}`);
+    }
+
+    const body = (await res.json()) as
+      | Array<{ index: number; score: number }>
+      | { results: Array<{ index: number; relevance_score: number }> };
+    const results = Array.isArray(body)
+      ? body
+      : body.results.map((r) => ({ index: r.index, score: r.relevance_score }));
+
+    const scores = new Array<number>(docs.length).fill(0);
+    for (const { index, score } of results) scores[index] = score;
+    return scores;
+  }
+}
+
+/**
+ * Score candidates with the reranker, drop those below `minScore` and keep the best `topN`,
+ * ordered by relevance.
+ */
+export async function rerankChunks(
+  reranker: Reranker,
+  question: string,
+  candidates: RankedChunk[],
+  options: { topN: number; minScore: number; model?: string },
+): Promise<RankedChunk[]> {
+  if (candidates.length === 0) return [];
+  const scores = await reranker.score(question, candidates.map((c) => c.doc), options.model);
+  return candidates
+    .map((chunk, i) => ({ ...chunk, rerankScore: scores[i] }))
+    .filter((chunk) => chunk.rerankScore >= options.minScore)
+    .sort((a, b) => b.rerankScore - a.rerankScore)
+    .slice(0, options.topN);
+}
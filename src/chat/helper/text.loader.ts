@@ -0,0 +1,39 @@
+import { Document } from '@langchain/core/documents';
+import { readFile } from 'fs/promises';
+
+async function readText(filePath: string): Promise<string> {
+  // Strip a UTF-8 BOM and normalise Windows line endings.
+  return (await readFile(filePath, 'utf8')).replace(/^\uFEFF/, '').replace(/\r\n?/g, '\n').trim();
+}
+
+export async function loadTextAsDocuments(filePath: string): Promise<Document[]> {
+  const text = await readText(filePath);
+  if (!text) return [];
+  return [
+    new Document({
+      pageContent: text,
+      metadata: { source: filePath, fileType: 'text', lineCount: text.split('\n').length },
+    }),
+  ];
+}
+
+/**
+ * Markdown is kept as-is (headings and lists help both the splitter and the LLM);
+ * the first heading becomes the title and all headings are recorded as an outline.
+ */
+export async function loadMarkdownAsDocuments(filePath: string): Promise<Document[]> {
+  const text = await readText(filePath);
+  if (!text) return [];
+
+  const headings = [...text.matchAll(/^#{1,6}\s+(.+?)\s*#*$/gm)].map((m) => m[1]);
+  return [
+    new Document({
+      pageContent: text,
+      metadata: {
+        source: filePath,
+        fileType: 'markdown',
+        ...(headings.length > 0 ? { title: headings[0], headings: headings.slice(0, 50) } : {}),
+      },
+    }),
+  ];
+}
@@ -0,0 +1,20 @@
+import { Controller, Get, Param, Query } from '@nestjs/common';
+import { IngestJobsService } from './ingest-jobs.service';
+import { Roles } from '../auth/auth.decorators';
+
+/** Status of background ingest jobs created by POST /chat/upload with async=true. */
+@Roles(['ingest'])
+@Controller('ingest/jobs')
+export class IngestJobsController {
+  constructor(private readonly ingestJobs: IngestJobsService) { }
+
+  @Get()
+  list(@Query('status') status?: string) {
+    return this.ingestJobs.list(status);
+  }
+
+  @Get(':id')
+  get(@Param('id') id: string) {
+    return this.ingestJobs.get(id);
+  }
+}
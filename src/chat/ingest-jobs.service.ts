@@ -0,0 +1,260 @@
+import {
+  Injectable,
+  NotFoundException,
+  OnModuleDestroy,
+  OnModuleInit,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Prisma, type IngestJob } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { AppLogger } from '../common/app-logger';
+import { DEFAULT_KNOWLEDGE_BASE, RagService } from '../rag/rag.service';
+import { ChatService, type IndexedDocument, type IngestFile } from './chat.service';
+import { isChunkingProfile, type ChunkingProfile } from './helper/chunking';
+import type { DocumentAcl } from './helper/access-control';
+
+/** A running job not updated for this long was left behind by a crashed worker. */
+const STALE_JOB_MS = 15 * 60 * 1000;
+
+export interface IngestJobError {
+  filename: string;
+  error: string;
+}
+
+/**
+ * Background ingest of uploaded files. Jobs are rows in Postgres (no Redis needed); a polling
+ * worker claims queued jobs and ingests their files one by one through ChatService.ingest(),
+ * recording progress and per-file errors after each file. At most INGEST_CONCURRENCY jobs
+ * (default 2) run at once per API instance. INGEST_WORKER=off leaves queued jobs to other
+ * instances, e.g. for the eval CLI, which must not claim jobs it would abandon on exit.
+ */
+@Injectable()
+export class IngestJobsService implements OnModuleInit, OnModuleDestroy {
+  private readonly appLog = new AppLogger(IngestJobsService.name);
+  private timer?: NodeJS.Timeout;
+  private active = 0;
+  private draining = false;
+  private stopped = false;
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly prisma: PrismaService,
+    private readonly ragService: RagService,
+    private readonly chatService: ChatService,
+  ) { }
+
+  async onModuleInit(): Promise<void> {
+    if (this.configService.get<string>('INGEST_WORKER') === 'off') {
+      this.stopped = true;
+      return;
+    }
+    try {
+      const { count } = await this.prisma.ingestJob.updateMany({
+        where: { status: 'running', updatedAt: { lt: new Date(Date.now() - STALE_JOB_MS) } },
+        data: { status: 'queued' },
+      });
+      if (count > 0) this.appLog.warn('Requeued stale ingest jobs', { count });
+    } catch (err) {
+      this.appLog.warn('Ingest job queue unavailable at startup', {
+        error: err instanceof Error ? err.message : String(err),
+      });
+    }
+
+    const intervalMs = parseInt(this.configService.get('INGEST_POLL_INTERVAL_MS') ?? '2000', 10);
+    this.timer = setInterval(() => void this.drain(), intervalMs);
+  }
+
+  onModuleDestroy(): void {
+    this.stopped = true;
+    clearInterval(this.timer);
+  }
+
+  /** Queue uploaded files for background ingest; the worker is woken up right away. */
+  async enqueue(
+    files: IngestFile[],
+    knowledgeBaseId = DEFAULT_KNOWLEDGE_BASE,
+    chunking?: ChunkingProfile,
+    acl?: DocumentAcl,
+  ) {
+    if (
+      knowledgeBaseId !== DEFAULT_KNOWLEDGE_BASE &&
+      !(await this.ragService.getKnowledgeBase(knowledgeBaseId))
+    ) {
+      throw new NotFoundException(`Knowledge base ${knowledgeBaseId} not found`);
+    }
+
+    const job = await this.prisma.ingestJob.create({
+      data: {
+        knowledgeBaseId,
+        chunking,
+        acl: acl as Prisma.InputJsonValue | undefined,
+        files: files as unknown as Prisma.InputJsonValue,
+        totalFiles: files.length,
+      },
+    });
+    this.appLog.log('Ingest job queued', { jobId: job.id, knowledgeBaseId, files: files.length });
+    void this.drain();
+    return this.toView(job);
+  }
+
+  async get(id: string) {
+    const job = await this.prisma.ingestJob.findUnique({ where: { id } });
+    if (!job) throw new NotFoundException(`Ingest job ${id} not found`);
+    return this.toView(job);
+  }
+
+  async list(status?: string) {
+    const jobs = await this.prisma.ingestJob.findMany({
+      where: status ? { status } : undefined,
+      orderBy: { createdAt: 'desc' },
+      take: 100,
+    });
+    return jobs.map((job) => this.toView(job));
+  }
+
+  /** Claim and start queued jobs until INGEST_CONCURRENCY jobs are running. */
+  private async drain(): Promise<void> {
+    if (this.draining || this.stopped) return;
+    this.draining = true;
+    const concurrency = parseInt(this.configService.get('INGEST_CONCURRENCY') ?? '2', 10);
+    try {
+      while (!this.stopped && this.active < concurrency) {
+        const job = await this.claimNext();
+        if (!job) break;
+        this.active += 1;
+        void this.run(job)
+          .catch((err) =>
+            this.appLog.error('Ingest job aborted', {
+              jobId: job.id,
+              error: err instanceof Error ? err.message : String(err),
+            }),
+          )
+          .finally(() => {
+            this.active -= 1;
+            void this.drain();
+          });
+      }
+    } catch (err) {
+      this.appLog.debug('Ingest job poll failed', {
+        error: err instanceof Error ? err.message : String(err),
+      });
+    } finally {
+      this.draining = false;
+    }
+  }
+
+  /** Atomically move the oldest queued job to running; other workers skip the locked row. */
+  private async claimNext(): Promise<IngestJob | null> {
+    const [claimed] = await this.prisma.$queryRaw<{ id: string }[]>`
+      UPDATE "IngestJob"
+      SET status = 'running', "startedAt" = now(), "updatedAt" = now(), attempts = attempts + 1
+      WHERE id = (
+        SELECT id FROM "IngestJob"
+        WHERE status = 'queued'
+        ORDER BY "createdAt"
+        LIMIT 1
+        FOR UPDATE SKIP LOCKED
+      )
+      RETURNING id`;
+    return claimed ? this.prisma.ingestJob.findUnique({ where: { id: claimed.id } }) : null;
+  }
+
+  /**
+   * Ingest the job's files one at a time, resuming after the files a previous attempt already
+   * processed. A failing file is recorded and does not stop the job; the job fails only when
+   * no file could be ingested.
+   */
+  private async run(job: IngestJob): Promise<void> {
+    const files = job.files as unknown as IngestFile[];
+    const errors = [...(job.errors as unknown as IngestJobError[])];
+    const documents = [...(job.documents as unknown as IndexedDocument[])];
+    const counts = {
+      chunksAdded: job.chunksAdded,
+      added: job.added,
+      skipped: job.skipped,
+      replaced: job.replaced,
+    };
+    this.appLog.log('Ingest job started', {
+      jobId: job.id,
+      knowledgeBaseId: job.knowledgeBaseId,
+      files: files.length,
+      attempt: job.attempts,
+    });
+
+    for (let i = job.processedFiles; i < files.length; i++) {
+      const file = files[i];
+      try {
+        const result = await this.chatService.ingest(
+          {
+            knowledgeBaseId: job.knowledgeBaseId,
+            chunking: isChunkingProfile(job.chunking) ? job.chunking : undefined,
+            acl: (job.acl ?? undefined) as DocumentAcl | undefined,
+          },
+          [file],
+        );
+        if (!result.documents) {
+          errors.push({ filename: file.filename, error: 'No text could be extracted' });
+        } else {
+          documents.push(...result.documents);
+          counts.chunksAdded += result.chunksAdded;
+          counts.added += result.added ?? 0;
+          counts.skipped += result.skipped ?? 0;
+          counts.replaced += result.replaced ?? 0;
+        }
+      } catch (err) {
+        const error = err instanceof Error ? err.message : String(err);
+        this.appLog.warn('Ingest job file failed', { jobId: job.id, filename: file.filename, error });
+        errors.push({ filename: file.filename, error });
+      }
+
+      await this.prisma.ingestJob.update({
+        where: { id: job.id },
+        data: {
+          processedFiles: i + 1,
+          ...counts,
+          errors: errors as unknown as Prisma.InputJsonValue,
+          documents: documents as unknown as Prisma.InputJsonValue,
+        },
+      });
+    }
+
+    const status = errors.length === files.length ? 'failed' : 'completed';
+    await this.prisma.ingestJob.update({
+      where: { id: job.id },
+      data: { status, finishedAt: new Date() },
+    });
+    this.appLog.log('Ingest job finished', {
+      jobId: job.id,
+      status,
+      ...counts,
+      errors: errors.length,
+    });
+  }
+
+  /** API shape: counters grouped, stored file paths left out. */
+  private toView(job: IngestJob) {
+    return {
+      id: job.id,
+      status: job.status,
+      knowledgeBaseId: job.knowledgeBaseId,
+      chunking: job.chunking,
+      acl: job.acl,
+      progress: {
+        processedFiles: job.processedFiles,
+        totalFiles: job.totalFiles,
+        percent: job.totalFiles ? Math.round((job.processedFiles / job.totalFiles) * 100) : 100,
+      },
+      files: (job.files as unknown as IngestFile[]).map((f) => f.filename),
+      chunksAdded: job.chunksAdded,
+      added: job.added,
+      skipped: job.skipped,
+      replaced: job.replaced,
+      errors: job.errors as unknown as IngestJobError[],
+      documents: job.documents as unknown as IndexedDocument[],
+      attempts: job.attempts,
+      createdAt: job.createdAt,
+      startedAt: job.startedAt,
+      finishedAt: job.finishedAt,
+    };
+  }
+}
@@ -0,0 +1,44 @@
+import type { Response } from 'express';
+
+export interface SseEvent {
+  /** SSE event name, e.g. "token", "tool", "done". */
+  type: string;
+  data: unknown;
+}
+
+/**
+ * Write an async event stream to an Express response as Server-Sent Events
+ * (`event: <type>` / `data: <json>`). Works for POST as well as GET, unlike @Sse().
+ * Stops consuming the source when the client disconnects; a thrown error becomes an
+ * `error` event before the stream is closed.
+ */
+export async function writeSse(res: Response, events: AsyncIterable<SseEvent>): Promise<void> {
+  res.status(200);
+  res.setHeader('Content-Type', 'text/event-stream; charset=utf-8');
+  res.setHeader('Cache-Control', 'no-cache, no-transform');
+  res.setHeader('Connection', 'keep-alive');
+  // Disable proxy buffering (nginx) so tokens arrive as they are written.
+  res.setHeader('X-Accel-Buffering', 'no');
+  res.flushHeaders();
+
+  let closed = false;
+  res.on('close', () => {
+    closed = true;
+  });
+
+  const send = (event: SseEvent) =>
+    res.write(`event: ${event.type}\ndata: ${JSON.stringify(event.data)}\n\n`);
+
+  try {
+    for await (const event of events) {
+      if (closed) break;
+      send(event);
+    }
+  } catch (err) {
+    if (!closed) {
+      send({ type: 'error', data: { message: err instanceof Error ? err.message : String(err) } });
+    }
+  } finally {
+    res.end();
+  }
+}
@@ -0,0 +1,32 @@
+import { Body, Controller, Delete, Get, Param, Post, Query } from '@nestjs/common';
+import { DocumentsService } from './documents.service';
+import { ReindexDocumentDto } from './dto/reindex-document.dto';
+import { accessScopeOf, CurrentKey, Roles, type ApiKeyPrincipal } from '../auth/auth.decorators';
+
+@Roles(['query'])
+@Controller('documents')
+export class DocumentsController {
+  constructor(private readonly documentsService: DocumentsService) { }
+
+  @Get()
+  list(@Query('knowledgeBaseId') knowledgeBaseId?: string, @CurrentKey() key?: ApiKeyPrincipal) {
+    return this.documentsService.list(knowledgeBaseId, accessScopeOf(key));
+  }
+
+  @Get(':id')
+  get(@Param('id') id: string, @CurrentKey() key?: ApiKeyPrincipal) {
+    return this.documentsService.get(id, accessScopeOf(key));
+  }
+
+  @Delete(':id')
+  @Roles(['admin'])
+  delete(@Param('id') id: string) {
+    return this.documentsService.delete(id);
+  }
+
+  @Post(':id/reindex')
+  @Roles(['ingest'])
+  reindex(@Param('id') id: string, @Body() body: ReindexDocumentDto) {
+    return this.documentsService.reindex(id, body?.chunking);
+  }
+}
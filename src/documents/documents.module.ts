@@ -0,0 +1,12 @@
+import { Module } from '@nestjs/common';
+import { DocumentsController } from './documents.controller';
+import { DocumentsService } from './documents.service';
+import { RagModule } from '../rag/rag.module';
+import { ChatModule } from '../chat/chat.module';
+
+@Module({
+  imports: [RagModule, ChatModule],
+  controllers: [DocumentsController],
+  providers: [DocumentsService],
+})
+export class DocumentsModule { }
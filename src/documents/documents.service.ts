@@ -0,0 +1,47 @@
+import { Injectable, NotFoundException } from '@nestjs/common';
+import { RagService } from '../rag/rag.service';
+import { ChatService } from '../chat/chat.service';
+import type { ChunkingProfile } from '../chat/helper/chunking';
+import { isReadable, scopeEntries, type AccessScope } from '../chat/helper/access-control';
+
+const metadataOf = (document: { metadata: unknown }) => (document.metadata ?? {}) as Record<string, unknown>;
+
+/**
+ * Document registry API: reads come from Postgres, deletes/reindexes also touch the vector store.
+ * With `access` reads only return documents whose ACL lets the caller read them; others are 404.
+ */
+@Injectable()
+export class DocumentsService {
+  constructor(
+    private readonly ragService: RagService,
+    private readonly chatService: ChatService,
+  ) { }
+
+  async list(knowledgeBaseId?: string, access?: AccessScope) {
+    const documents = await this.ragService.listDocuments(knowledgeBaseId);
+    if (!access) return documents;
+    const entries = scopeEntries(access);
+    return documents.filter((document) => isReadable(metadataOf(document), entries));
+  }
+
+  async get(id: string, access?: AccessScope) {
+    const document = await this.ragService.getDocument(id);
+    if (!document || (access && !isReadable(metadataOf(document), scopeEntries(access)))) {
+      throw new NotFoundException(`Document ${id} not found`);
+    }
+    return document;
+  }
+
+  async delete(id: string) {
+    const document = await this.get(id);
+    await this.chatService.deleteDocumentVectors(id, document.knowledgeBaseId);
+    await this.ragService.deleteDocument(id);
+    return { success: true, id };
+  }
+
+  async reindex(id: string, chunking?: ChunkingProfile) {
+    const document = await this.get(id);
+    const indexed = await this.chatService.reindexDocument(document, chunking);
+    return { success: true, ...indexed };
+  }
+}
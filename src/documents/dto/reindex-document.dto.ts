@@ -0,0 +1,9 @@
+import { IsIn, IsOptional } from 'class-validator';
+import { CHUNKING_PROFILES, type ChunkingProfile } from '../../chat/helper/chunking';
+
+export class ReindexDocumentDto {
+  /** Re-chunk with this profile instead of the one recorded at ingest. */
+  @IsOptional()
+  @IsIn(CHUNKING_PROFILES)
+  chunking?: ChunkingProfile;
+}
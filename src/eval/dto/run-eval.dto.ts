@@ -0,0 +1,79 @@
+import { Type } from 'class-transformer';
+import {
+  ArrayNotEmpty,
+  IsArray,
+  IsIn,
+  IsInt,
+  IsOptional,
+  IsString,
+  Min,
+  ValidateNested,
+} from 'class-validator';
+import {
+  QUERY_EXPANSIONS,
+  RETRIEVAL_MODES,
+  type QueryExpansion,
+  type RetrievalMode,
+} from '../../chat/dto/ask.dto';
+
+export class GoldenQuestionDto {
+  @IsOptional()
+  @IsString()
+  id?: string;
+
+  @IsString()
+  question: string;
+
+  @IsOptional()
+  @IsString()
+  expectedAnswer?: string;
+
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  expectedSources?: string[];
+}
+
+export class RunEvalDto {
+  /** Label shown in run lists and diffs, e.g. "k=4 hybrid". */
+  @IsOptional()
+  @IsString()
+  name?: string;
+
+  /** Golden set file name under EVAL_DIR, e.g. "orders.golden.jsonl". */
+  @IsOptional()
+  @IsString()
+  goldenSet?: string;
+
+  /** Inline golden questions, instead of `goldenSet`. */
+  @IsOptional()
+  @IsArray()
+  @ArrayNotEmpty()
+  @ValidateNested({ each: true })
+  @Type(() => GoldenQuestionDto)
+  questions?: GoldenQuestionDto[];
+
+  @IsOptional()
+  @IsString()
+  knowledgeBaseId?: string;
+
+  @IsOptional()
+  @IsIn(RETRIEVAL_MODES)
+  mode?: RetrievalMode;
+
+  @IsOptional()
+  @IsIn(QUERY_EXPANSIONS)
+  expansion?: QueryExpansion;
+
+  /** Chat model that answers; the judge is EVAL_JUDGE_MODEL (default: the chat model). */
+  @IsOptional()
+  @IsString()
+  model?: string;
+
+  /** k of recall@k; defaults to EVAL_RECALL_K. */
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  k?: number;
+}
@@ -0,0 +1,83 @@
+import { diffRuns, exactMatch, rankSources, recallAtK, reciprocalRank, summarize, type QuestionResult } from './eval-metrics';
+import { parseGoldenSet } from './golden-set';
+
+describe('eval metrics', () => {
+  const chunks = [
+    { metadata: { source: 'shipping-policy' } },
+    { metadata: { source: 'shipping-policy' } },
+    { metadata: { source: '/tmp/uploads/invoice-189012.pdf', documentId: 'doc-1' } },
+    { metadata: { source: 'invoice-189013' } },
+  ];
+
+  it('ranks distinct sources and scores recall@k and reciprocal rank', () => {
+    const ranked = rankSources(chunks);
+
+    expect(ranked.map((names) => names[0])).toEqual([
+      'shipping-policy',
+      '/tmp/uploads/invoice-189012.pdf',
+      'invoice-189013',
+    ]);
+    expect(recallAtK(ranked, ['invoice-189012.pdf', 'invoice-189013'], 2)).toBe(0.5);
+    expect(reciprocalRank(ranked, ['DOC-1'])).toBe(0.5);
+    expect(reciprocalRank(ranked, ['missing'])).toBe(0);
+  });
+
+  it('matches expected answers ignoring case, punctuation and articles', () => {
+    expect(exactMatch('The tracking ID is FX-123456789.', 'fx 123456789')).toBe(1);
+    expect(exactMatch('Express shipping takes 1-2 business days.', '1–2 business days')).toBe(1);
+    expect(exactMatch('Tracking ID: FX-1234567890', 'FX-123456789')).toBe(0);
+  });
+
+  it('summarizes and diffs runs by question id', () => {
+    const result = (id: string, recall: number | null, answer: string): QuestionResult => ({
+      id,
+      question: id,
+      success: true,
+      answer,
+      retrievedSources: [],
+      latencyMs: 100,
+      recallAtK: recall,
+      reciprocalRank: recall,
+      exactMatch: null,
+      answerSimilarity: null,
+      faithfulness: 1,
+    });
+    const snapshot = (id: string, mode: string, results: QuestionResult[]) => ({
+      id,
+      name: null,
+      createdAt: new Date(0),
+      config: { mode, recallK: 5 },
+      results,
+      summary: summarize(results),
+    });
+    const base = snapshot('a', 'hybrid', [result('q1', 1, 'FX-1'), result('q2', 1, 'QuickShip')]);
+    const run = snapshot('b', 'vector', [result('q1', 0, 'FX-1'), result('q3', null, '')]);
+
+    expect(run.summary).toMatchObject({ questions: 2, recallAtK: 0, exactMatch: null, faithfulness: 1 });
+    const diff = diffRuns(base, run);
+    expect(diff.config).toEqual({ mode: { base: 'hybrid', run: 'vector' } });
+    expect(diff.summary.recallAtK).toEqual({ base: 1, run: 0, delta: -1 });
+    expect(diff.questions).toEqual([
+      {
+        id: 'q1',
+        question: 'q1',
+        metrics: {
+          recallAtK: { base: 1, run: 0, delta: -1 },
+          reciprocalRank: { base: 1, run: 0, delta: -1 },
+        },
+      },
+      { id: 'q3', question: 'q3', added: true },
+    ]);
+    expect(diff.removedQuestions).toEqual(['q2']);
+  });
+
+  it('parses golden sets with default ids and reports bad lines', () => {
+    const text = ['// comment', '{"question": "Carrier of ORD-1002?"}', '', '{"id": "x", "question": "Hi"}'].join('\n');
+
+    expect(parseGoldenSet(text).map((q) => q.id)).toEqual(['line-2', 'x']);
+    expect(() => parseGoldenSet('{"question": ""}')).toThrow(/^Line 1:/);
+    expect(() => parseGoldenSet('{"id": "x", "question": "a"}\n{"id": "x", "question": "b"}')).toThrow(
+      'Duplicate question id: x',
+    );
+  });
+});
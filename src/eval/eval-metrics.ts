@@ -0,0 +1,203 @@
+import { basename } from 'path';
+
+/** Scores of one golden question; null when the golden set gives nothing to compare with. */
+export interface QuestionMetrics {
+  /** Share of expected sources among the first k distinct retrieved sources. */
+  recallAtK: number | null;
+  /** 1 / rank of the first expected source among the retrieved sources (0 if none). */
+  reciprocalRank: number | null;
+  /** 1 when the normalized expected answer appears in the normalized answer, else 0. */
+  exactMatch: number | null;
+  /** Cosine similarity of the answer and expected answer embeddings. */
+  answerSimilarity: number | null;
+  /** Share of answer claims the retrieved context supports, judged by the chat model. */
+  faithfulness: number | null;
+}
+
+export const METRICS: (keyof QuestionMetrics)[] = [
+  'recallAtK',
+  'reciprocalRank',
+  'exactMatch',
+  'answerSimilarity',
+  'faithfulness',
+];
+
+export interface QuestionResult extends QuestionMetrics {
+  id: string;
+  question: string;
+  expectedAnswer?: string;
+  expectedSources?: string[];
+  success: boolean;
+  answer: string;
+  /** Distinct retrieved sources, best first (first name of each). */
+  retrievedSources: string[];
+  latencyMs: number;
+  error?: string;
+}
+
+/** Mean of each metric over the questions that have it (`mrr` is the mean reciprocal rank). */
+export interface EvalSummary {
+  questions: number;
+  failed: number;
+  recallAtK: number | null;
+  mrr: number | null;
+  exactMatch: number | null;
+  answerSimilarity: number | null;
+  faithfulness: number | null;
+  meanLatencyMs: number;
+}
+
+/** Names a retrieved chunk answers to: its source, the source's file name, file name and document id. */
+export function sourceNames(metadata: Record<string, unknown>): string[] {
+  const names = [metadata.source, metadata.filename, metadata.documentId]
+    .filter((v): v is string => typeof v === 'string' && v.length > 0)
+    .flatMap((v) => [v, basename(v)]);
+  return [...new Set(names.map((n) => n.toLowerCase()))];
+}
+
+/** Distinct sources in rank order; several chunks of one source count once. */
+export function rankSources(chunks: { metadata: Record<string, unknown> }[]): string[][] {
+  const seen = new Set<string>();
+  const ranked: string[][] = [];
+  for (const { metadata } of chunks) {
+    const names = sourceNames(metadata);
+    if (names.length === 0 || seen.has(names[0])) continue;
+    seen.add(names[0]);
+    ranked.push(names);
+  }
+  return ranked;
+}
+
+const matches = (names: string[], expected: string) => names.includes(expected.toLowerCase());
+
+export function recallAtK(ranked: string[][], expected: string[], k: number): number {
+  const top = ranked.slice(0, k);
+  const found = expected.filter((source) => top.some((names) => matches(names, source)));
+  return found.length / expected.length;
+}
+
+export function reciprocalRank(ranked: string[][], expected: string[]): number {
+  const rank = ranked.findIndex((names) => expected.some((source) => matches(names, source)));
+  return rank === -1 ? 0 : 1 / (rank + 1);
+}
+
+/** Lowercase, without punctuation, articles and extra spaces (SQuAD-style). */
+export function normalizeAnswer(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}\s]/gu, ' ')
+    .replace(/\b(a|an|the)\b/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+export function exactMatch(answer: string, expected: string): number {
+  const target = normalizeAnswer(expected);
+  return target.length > 0 && ` ${normalizeAnswer(answer)} `.includes(` ${target} `) ? 1 : 0;
+}
+
+export function cosineSimilarity(a: number[], b: number[]): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA === 0 || normB === 0 ? 0 : dot / Math.sqrt(normA * normB);
+}
+
+const round = (n: number) => Math.round(n * 1000) / 1000;
+
+function mean(values: (number | null)[]): number | null {
+  const present = values.filter((v): v is number => v != null);
+  return present.length === 0 ? null : round(present.reduce((sum, v) => sum + v, 0) / present.length);
+}
+
+export function summarize(results: QuestionResult[]): EvalSummary {
+  return {
+    questions: results.length,
+    failed: results.filter((r) => !r.success).length,
+    recallAtK: mean(results.map((r) => r.recallAtK)),
+    mrr: mean(results.map((r) => r.reciprocalRank)),
+    exactMatch: mean(results.map((r) => r.exactMatch)),
+    answerSimilarity: mean(results.map((r) => r.answerSimilarity)),
+    faithfulness: mean(results.map((r) => r.faithfulness)),
+    meanLatencyMs: Math.round(mean(results.map((r) => r.latencyMs)) ?? 0),
+  };
+}
+
+export interface EvalRunSnapshot {
+  id: string;
+  name: string | null;
+  createdAt: Date;
+  config: Record<string, unknown>;
+  summary: EvalSummary | null;
+  results: QuestionResult[];
+}
+
+export type Change = { base: unknown; run: unknown; delta?: number };
+
+export interface QuestionChange {
+  id: string;
+  question: string;
+  /** Not in the base run. */
+  added?: boolean;
+  metrics?: Record<string, Change>;
+  answer?: { base: string; run: string };
+}
+
+function change(base: unknown, run: unknown): Change {
+  return typeof base === 'number' && typeof run === 'number'
+    ? { base, run, delta: round(run - base) }
+    : { base, run };
+}
+
+/**
+ * Compare `run` with `base`: config settings that differ, the summary metrics with deltas, and
+ * the questions whose metrics or answer changed (matched by question id).
+ */
+export function diffRuns(base: EvalRunSnapshot, run: EvalRunSnapshot) {
+  const configKeys = [...new Set([...Object.keys(base.config), ...Object.keys(run.config)])];
+  const config = Object.fromEntries(
+    configKeys
+      .filter((key) => JSON.stringify(base.config[key]) !== JSON.stringify(run.config[key]))
+      .map((key) => [key, change(base.config[key], run.config[key])]),
+  );
+
+  const summaryKeys = Object.keys(run.summary ?? base.summary ?? {}) as (keyof EvalSummary)[];
+  const summary = Object.fromEntries(
+    summaryKeys.map((key) => [key, change(base.summary?.[key] ?? null, run.summary?.[key] ?? null)]),
+  );
+
+  const baseById = new Map(base.results.map((r) => [r.id, r]));
+  const questions = run.results.flatMap((result): QuestionChange[] => {
+    const before = baseById.get(result.id);
+    if (!before) return [{ id: result.id, question: result.question, added: true }];
+    const metrics = Object.fromEntries(
+      METRICS.filter((m) => before[m] !== result[m]).map((m) => [m, change(before[m], result[m])]),
+    );
+    const answerChanged = before.answer !== result.answer;
+    if (Object.keys(metrics).length === 0 && !answerChanged) return [];
+    return [
+      {
+        id: result.id,
+        question: result.question,
+        metrics,
+        ...(answerChanged ? { answer: { base: before.answer, run: result.answer } } : {}),
+      },
+    ];
+  });
+  const runIds = new Set(run.results.map((r) => r.id));
+  const removed = base.results.filter((r) => !runIds.has(r.id)).map((r) => r.id);
+
+  return {
+    base: { id: base.id, name: base.name, createdAt: base.createdAt },
+    run: { id: run.id, name: run.name, createdAt: run.createdAt },
+    config,
+    summary,
+    questions,
+    ...(removed.length > 0 ? { removedQuestions: removed } : {}),
+  };
+}
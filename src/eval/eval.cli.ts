@@ -0,0 +1,121 @@
+import { NestFactory } from '@nestjs/core';
+import { writeFile } from 'fs/promises';
+import { AppModule } from '../app.module';
+import { QUERY_EXPANSIONS, RETRIEVAL_MODES, type QueryExpansion, type RetrievalMode } from '../chat/dto/ask.dto';
+import { EvalService, type EvalOptions } from './eval.service';
+import type { EvalSummary } from './eval-metrics';
+
+const USAGE = `Usage:
+  pnpm eval run <golden.jsonl> [--name <label>] [--kb <knowledgeBaseId>] [--ingest <docs.json>]
+                [--mode vector|keyword|hybrid] [--expansion none|rewrite|multi-query|hyde]
+                [--model <provider:model>] [--k <n>] [--out <run.json>]
+  pnpm eval diff <baseRunId> <runId> [--out <diff.json>]
+  pnpm eval list`;
+
+class UsageError extends Error { }
+
+/** Positional arguments and `--flag value` pairs. */
+function parseArgs(args: string[]): { positional: string[]; flags: Record<string, string> } {
+  const positional: string[] = [];
+  const flags: Record<string, string> = {};
+  for (let i = 0; i < args.length; i++) {
+    if (!args[i].startsWith('--')) {
+      positional.push(args[i]);
+      continue;
+    }
+    const value = args[i + 1];
+    if (value === undefined || value.startsWith('--')) throw new UsageError(`Missing value for ${args[i]}`);
+    flags[args[i].slice(2)] = value;
+    i++;
+  }
+  return { positional, flags };
+}
+
+function oneOf<T extends string>(flag: string, value: string | undefined, allowed: readonly T[]): T | undefined {
+  if (value === undefined) return undefined;
+  if (!(allowed as readonly string[]).includes(value)) {
+    throw new UsageError(`--${flag} must be one of: ${allowed.join(', ')}`);
+  }
+  return value as T;
+}
+
+function runOptions(flags: Record<string, string>): EvalOptions {
+  const k = flags.k === undefined ? undefined : parseInt(flags.k, 10);
+  if (k !== undefined && !(k >= 1)) throw new UsageError('--k must be a positive integer');
+  return {
+    name: flags.name,
+    knowledgeBaseId: flags.kb,
+    mode: oneOf<RetrievalMode>('mode', flags.mode, RETRIEVAL_MODES),
+    expansion: oneOf<QueryExpansion>('expansion', flags.expansion, QUERY_EXPANSIONS),
+    model: flags.model,
+    k,
+  };
+}
+
+function formatSummary(summary: EvalSummary | null, recallK: unknown): string {
+  if (!summary) return '  (no summary)';
+  const value = (n: number | null) => (n == null ? 'n/a' : n.toFixed(3));
+  return [
+    `  recall@${recallK}`.padEnd(18) + value(summary.recallAtK),
+    '  MRR'.padEnd(18) + value(summary.mrr),
+    '  exact match'.padEnd(18) + value(summary.exactMatch),
+    '  answer sim.'.padEnd(18) + value(summary.answerSimilarity),
+    '  faithfulness'.padEnd(18) + value(summary.faithfulness),
+    '  mean latency'.padEnd(18) + `${summary.meanLatencyMs} ms`,
+  ].join('\n');
+}
+
+const print = (text: string) => process.stdout.write(`${text}\n`);
+
+async function main(): Promise<void> {
+  const [command, ...rest] = process.argv.slice(2);
+  const { positional, flags } = parseArgs(rest);
+  if (command === 'run' && positional.length !== 1) throw new UsageError('run takes one golden set file');
+  if (command === 'diff' && positional.length !== 2) throw new UsageError('diff takes two run ids');
+  if (command !== 'run' && command !== 'diff' && command !== 'list') throw new UsageError('Unknown command');
+  const options = command === 'run' ? runOptions(flags) : undefined;
+
+  // The CLI exits when its command is done; upload jobs are left to the API's ingest worker.
+  process.env.INGEST_WORKER = 'off';
+  const app = await NestFactory.createApplicationContext(AppModule, { logger: ['error', 'warn'] });
+  try {
+    const evalService = app.get(EvalService);
+
+    if (command === 'list') {
+      for (const run of await evalService.list()) {
+        const summary = run.summary
+          ? `recall=${run.summary.recallAtK} mrr=${run.summary.mrr} em=${run.summary.exactMatch} ` +
+            `sim=${run.summary.answerSimilarity} faith=${run.summary.faithfulness}`
+          : '';
+        print(`${run.id}  ${run.createdAt.toISOString()}  ${run.status.padEnd(9)} ${run.name ?? run.goldenSet}  ${summary}`);
+      }
+      return;
+    }
+
+    if (command === 'diff') {
+      const diff = await evalService.diff(positional[0], positional[1]);
+      if (flags.out) await writeFile(flags.out, JSON.stringify(diff, null, 2));
+      print(JSON.stringify(diff, null, 2));
+      return;
+    }
+
+    if (flags.ingest) {
+      const ingested = await evalService.ingestFixtures(flags.ingest, options!.knowledgeBaseId);
+      print(`Ingested fixtures from ${flags.ingest}: ${JSON.stringify(ingested)}`);
+    }
+    const run = await evalService.runFile(positional[0], options!);
+    if (flags.out) await writeFile(flags.out, JSON.stringify(run, null, 2));
+    print('');
+    print(`Eval run ${run.id} (${run.goldenSet}, ${run.status})`);
+    print(formatSummary(run.summary, run.config.recallK));
+    print(`\nCompare with an earlier run: pnpm eval diff <baseRunId> ${run.id}`);
+  } finally {
+    await app.close();
+  }
+}
+
+main().catch((err: unknown) => {
+  process.stderr.write(`${err instanceof Error ? err.message : String(err)}\n`);
+  if (err instanceof UsageError) process.stderr.write(`\n${USAGE}\n`);
+  process.exit(1);
+});
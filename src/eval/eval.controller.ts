@@ -0,0 +1,32 @@
+import { Body, Controller, Get, Param, Post } from '@nestjs/common';
+import { EvalService } from './eval.service';
+import { RunEvalDto } from './dto/run-eval.dto';
+import { Roles } from '../auth/auth.decorators';
+
+/** Offline RAG evaluation runs over golden question sets (see also `pnpm eval`). */
+@Roles(['admin'])
+@Controller('eval')
+export class EvalController {
+  constructor(private readonly evalService: EvalService) { }
+
+  /** Starts the run in the background; poll GET /eval/runs/:id until status is not "running". */
+  @Post('runs')
+  start(@Body() body: RunEvalDto) {
+    return this.evalService.start(body);
+  }
+
+  @Get('runs')
+  list() {
+    return this.evalService.list();
+  }
+
+  @Get('runs/:id')
+  get(@Param('id') id: string) {
+    return this.evalService.get(id);
+  }
+
+  @Get('runs/:id/diff/:baseId')
+  diff(@Param('id') id: string, @Param('baseId') baseId: string) {
+    return this.evalService.diff(baseId, id);
+  }
+}
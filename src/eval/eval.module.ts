@@ -0,0 +1,13 @@
+import { Module } from '@nestjs/common';
+import { ChatModule } from '../chat/chat.module';
+import { KnowledgeBasesModule } from '../knowledge-bases/knowledge-bases.module';
+import { EvalController } from './eval.controller';
+import { EvalService } from './eval.service';
+
+@Module({
+  imports: [ChatModule, KnowledgeBasesModule],
+  controllers: [EvalController],
+  providers: [EvalService],
+  exports: [EvalService],
+})
+export class EvalModule { }
@@ -0,0 +1,305 @@
+import { BadRequestException, Injectable, NotFoundException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Prisma, type EvalRun } from '@prisma/client';
+import { Document } from '@langchain/core/documents';
+import { existsSync } from 'fs';
+import { readFile } from 'fs/promises';
+import { basename, join, resolve } from 'path';
+import { PrismaService } from '../prisma/prisma.service';
+import { AppLogger } from '../common/app-logger';
+import { ModelProviderService } from '../models/model-provider.service';
+import { ChatService, type QueryResult } from '../chat/chat.service';
+import type { IngestDocDto } from '../chat/dto/ingest.dto';
+import { verifyGrounding } from '../chat/helper/grounding';
+import { DEFAULT_KNOWLEDGE_BASE } from '../rag/rag.service';
+import { KnowledgeBasesService } from '../knowledge-bases/knowledge-bases.service';
+import { loadGoldenSet, parseGoldenSet, type GoldenQuestion } from './golden-set';
+import {
+  cosineSimilarity,
+  diffRuns,
+  exactMatch,
+  rankSources,
+  recallAtK,
+  reciprocalRank,
+  summarize,
+  type EvalSummary,
+  type QuestionResult,
+} from './eval-metrics';
+import type { RunEvalDto } from './dto/run-eval.dto';
+
+/** Run settings; the golden questions are passed separately. */
+export type EvalOptions = Omit<RunEvalDto, 'goldenSet' | 'questions'>;
+
+const errorMessage = (err: unknown) => (err instanceof Error ? err.message : String(err));
+
+/**
+ * Offline RAG evaluation. Every golden question is answered through ChatService.query() with the
+ * current configuration and scored on retrieval (recall@k, MRR) and on the answer (exact match,
+ * embedding similarity to the expected answer, faithfulness judged by the chat model). Runs are
+ * stored in EvalRun, so two configurations can be compared with diff().
+ */
+@Injectable()
+export class EvalService {
+  private readonly appLog = new AppLogger(EvalService.name);
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly prisma: PrismaService,
+    private readonly models: ModelProviderService,
+    private readonly chatService: ChatService,
+    private readonly knowledgeBases: KnowledgeBasesService,
+  ) { }
+
+  /** API entry point: create the run and evaluate it in the background; poll get(id). */
+  async start(dto: RunEvalDto) {
+    const { goldenSet, questions } = await this.resolveQuestions(dto);
+    const run = await this.createRun(goldenSet, questions, dto);
+    void this.execute(run.id, questions, dto).catch((err) =>
+      this.appLog.error('Eval run aborted', { runId: run.id, error: errorMessage(err) }),
+    );
+    return this.toView(run);
+  }
+
+  /** CLI entry point: evaluate a golden set file and wait for the result. */
+  async runFile(path: string, options: EvalOptions) {
+    const questions = await loadGoldenSet(path);
+    const run = await this.createRun(basename(path), questions, options);
+    await this.execute(run.id, questions, options);
+    return this.get(run.id);
+  }
+
+  async list() {
+    const runs = await this.prisma.evalRun.findMany({
+      orderBy: { createdAt: 'desc' },
+      take: 100,
+      omit: { results: true },
+    });
+    return runs.map((run) => ({ ...run, summary: run.summary as EvalSummary | null }));
+  }
+
+  async get(id: string) {
+    return this.toView(await this.find(id));
+  }
+
+  /** Changes from `baseId` to `id`: config, summary deltas and per-question differences. */
+  async diff(baseId: string, id: string) {
+    const [base, run] = await Promise.all([this.find(baseId), this.find(id)]);
+    return diffRuns(this.toView(base), this.toView(run));
+  }
+
+  /**
+   * Ingest fixture documents (an /chat/ingest body or a plain array of docs) so a golden set has
+   * something to retrieve. A missing knowledge base other than "default" is created first.
+   */
+  async ingestFixtures(path: string, knowledgeBaseId = DEFAULT_KNOWLEDGE_BASE) {
+    const json = JSON.parse(await readFile(path, 'utf8')) as unknown;
+    const docs = Array.isArray(json) ? json : (json as { docs?: unknown }).docs;
+    if (!Array.isArray(docs)) throw new BadRequestException(`${path} has no "docs" array`);
+
+    if (knowledgeBaseId !== DEFAULT_KNOWLEDGE_BASE) {
+      await this.knowledgeBases.get(knowledgeBaseId).catch((err) => {
+        if (!(err instanceof NotFoundException)) throw err;
+        return this.knowledgeBases.create({
+          id: knowledgeBaseId,
+          name: `Evaluation (${knowledgeBaseId})`,
+        });
+      });
+    }
+    return this.chatService.ingest({ docs: docs as IngestDocDto[], knowledgeBaseId });
+  }
+
+  private async resolveQuestions(
+    dto: RunEvalDto,
+  ): Promise<{ goldenSet: string; questions: GoldenQuestion[] }> {
+    if (dto.questions?.length) {
+      // Inline questions go through the same checks as a file (ids default to their position).
+      const text = dto.questions.map((q) => JSON.stringify(q)).join('\n');
+      return { goldenSet: 'inline', questions: this.parseOrReject(() => parseGoldenSet(text)) };
+    }
+    if (!dto.goldenSet) throw new BadRequestException('Send goldenSet or questions');
+
+    // Only files directly inside EVAL_DIR can be named.
+    const name = basename(dto.goldenSet);
+    const path = join(resolve(this.configService.get<string>('EVAL_DIR') ?? 'eval'), name);
+    if (name !== dto.goldenSet || !existsSync(path)) {
+      throw new NotFoundException(`Golden set ${dto.goldenSet} not found`);
+    }
+    const text = await readFile(path, 'utf8');
+    return { goldenSet: name, questions: this.parseOrReject(() => parseGoldenSet(text)) };
+  }
+
+  private parseOrReject(parse: () => GoldenQuestion[]): GoldenQuestion[] {
+    try {
+      return parse();
+    } catch (err) {
+      throw new BadRequestException(`Invalid golden set: ${errorMessage(err)}`);
+    }
+  }
+
+  private async createRun(goldenSet: string, questions: GoldenQuestion[], options: EvalOptions) {
+    if (questions.length === 0) throw new BadRequestException('The golden set has no questions');
+    const run = await this.prisma.evalRun.create({
+      data: {
+        name: options.name,
+        goldenSet,
+        knowledgeBaseId: options.knowledgeBaseId ?? DEFAULT_KNOWLEDGE_BASE,
+        config: this.configSnapshot(options) as Prisma.InputJsonValue,
+      },
+    });
+    this.appLog.log('Eval run started', { runId: run.id, goldenSet, questions: questions.length });
+    return run;
+  }
+
+  /** Evaluate the questions one by one, saving results after each so progress is visible. */
+  private async execute(
+    runId: string,
+    questions: GoldenQuestion[],
+    options: EvalOptions,
+  ): Promise<void> {
+    const k = this.recallK(options);
+    const results: QuestionResult[] = [];
+    try {
+      for (const question of questions) {
+        results.push(await this.evaluateQuestion(question, options, k));
+        await this.prisma.evalRun.update({
+          where: { id: runId },
+          data: { results: results as unknown as Prisma.InputJsonValue },
+        });
+      }
+      const summary = summarize(results);
+      await this.prisma.evalRun.update({
+        where: { id: runId },
+        data: {
+          status: 'completed',
+          summary: summary as unknown as Prisma.InputJsonValue,
+          finishedAt: new Date(),
+        },
+      });
+      this.appLog.log('Eval run completed', { runId, ...summary });
+    } catch (err) {
+      await this.prisma.evalRun.update({
+        where: { id: runId },
+        data: { status: 'failed', error: errorMessage(err), finishedAt: new Date() },
+      });
+      throw err;
+    }
+  }
+
+  private async evaluateQuestion(
+    golden: GoldenQuestion,
+    options: EvalOptions,
+    k: number,
+  ): Promise<QuestionResult> {
+    const started = Date.now();
+    let result: QueryResult;
+    try {
+      result = await this.chatService.query(golden.question, {
+        knowledgeBaseId: options.knowledgeBaseId,
+        mode: options.mode,
+        expansion: options.expansion,
+        model: options.model,
+        includeContext: true,
+      });
+    } catch (err) {
+      result = { success: false, answer: '', citations: [], message: errorMessage(err) };
+    }
+    const latencyMs = Date.now() - started;
+
+    const context = result.context ?? [];
+    const ranked = rankSources(context);
+    const expectedSources = golden.expectedSources?.length ? golden.expectedSources : undefined;
+    const { expectedAnswer } = golden;
+    const answer = result.answer ?? '';
+
+    return {
+      id: golden.id,
+      question: golden.question,
+      expectedAnswer,
+      expectedSources,
+      success: result.success,
+      answer,
+      retrievedSources: ranked.map((names) => names[0]),
+      latencyMs,
+      ...(result.success ? {} : { error: result.message ?? 'No answer' }),
+      recallAtK: expectedSources ? recallAtK(ranked, expectedSources, k) : null,
+      reciprocalRank: expectedSources ? reciprocalRank(ranked, expectedSources) : null,
+      exactMatch: expectedAnswer ? exactMatch(answer, expectedAnswer) : null,
+      answerSimilarity: expectedAnswer ? await this.answerSimilarity(answer, expectedAnswer) : null,
+      faithfulness:
+        answer && context.length > 0 ? await this.judgeFaithfulness(answer, context, options) : null,
+    };
+  }
+
+  /** Cosine similarity of the two texts' embeddings; null if embedding fails. */
+  private async answerSimilarity(answer: string, expected: string): Promise<number | null> {
+    if (!answer.trim()) return 0;
+    try {
+      const [a, b] = await this.models.getEmbeddings().embedDocuments([answer, expected]);
+      return Math.round(cosineSimilarity(a, b) * 1000) / 1000;
+    } catch (err) {
+      this.appLog.warn('Answer similarity failed', { error: errorMessage(err) });
+      return null;
+    }
+  }
+
+  /** Grounding verifier as judge: share of answer claims the context supports. */
+  private async judgeFaithfulness(
+    answer: string,
+    context: NonNullable<QueryResult['context']>,
+    options: EvalOptions,
+  ): Promise<number | null> {
+    const docs = context.map((c) => new Document({ pageContent: c.content, metadata: c.metadata }));
+    try {
+      const { result } = await this.models.runWithFallback(this.judgeModel(options), (llm, signal) =>
+        verifyGrounding(llm, answer, docs, signal),
+      );
+      return result.score;
+    } catch (err) {
+      this.appLog.warn('Faithfulness judge failed', { error: errorMessage(err) });
+      return null;
+    }
+  }
+
+  private judgeModel(options: EvalOptions): string | undefined {
+    return this.configService.get<string>('EVAL_JUDGE_MODEL') || options.model;
+  }
+
+  private recallK(options: EvalOptions): number {
+    return options.k ?? parseInt(this.configService.get('EVAL_RECALL_K') ?? '5', 10);
+  }
+
+  /** Everything that can change answers, recorded with the run so diffs show what was varied. */
+  private configSnapshot(options: EvalOptions): Record<string, unknown> {
+    const get = (key: string) => this.configService.get<string>(key) ?? null;
+    const ref = ({ provider, model }: { provider: string; model: string }) => `${provider}:${model}`;
+    return {
+      recallK: this.recallK(options),
+      retrievalK: parseInt(get('RAG_RETRIEVAL_K') ?? '8', 10),
+      mode: options.mode ?? get('RAG_RETRIEVAL_MODE') ?? 'hybrid',
+      expansion: options.expansion ?? get('RAG_QUERY_EXPANSION') ?? 'none',
+      chatModel: ref(this.models.resolveChatModel(options.model)),
+      judgeModel: ref(this.models.resolveChatModel(this.judgeModel(options))),
+      embeddingsModel: ref(this.models.embeddingsModel()),
+      chunking: get('CHUNKING_PROFILE'),
+      chunkingByType: get('CHUNKING_PROFILES_BY_TYPE'),
+      reranker: get('RERANK_PROVIDER') ?? 'none',
+      rerankTopN: get('RERANK_TOP_N'),
+      groundingCheck: get('GROUNDING_CHECK') ?? 'on',
+    };
+  }
+
+  private async find(id: string): Promise<EvalRun> {
+    const run = await this.prisma.evalRun.findUnique({ where: { id } });
+    if (!run) throw new NotFoundException(`Eval run ${id} not found`);
+    return run;
+  }
+
+  private toView(run: EvalRun) {
+    return {
+      ...run,
+      config: run.config as Record<string, unknown>,
+      summary: run.summary as EvalSummary | null,
+      results: run.results as unknown as QuestionResult[],
+    };
+  }
+}
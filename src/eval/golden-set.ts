@@ -0,0 +1,41 @@
+import { z } from 'zod/v4';
+import { readFile } from 'fs/promises';
+
+export const goldenQuestionSchema = z.object({
+  /** Stable id used to match questions across runs; defaults to the line number. */
+  id: z.string().min(1).optional(),
+  question: z.string().trim().min(1),
+  expectedAnswer: z.string().trim().min(1).optional(),
+  /** Sources that should be retrieved: `meta.source`, file name or document id. */
+  expectedSources: z.array(z.string().min(1)).optional(),
+});
+
+export type GoldenQuestion = z.infer<typeof goldenQuestionSchema> & { id: string };
+
+/** One JSON object per line; blank lines and lines starting with `//` are skipped. */
+export function parseGoldenSet(text: string): GoldenQuestion[] {
+  const questions: GoldenQuestion[] = [];
+  text.split('\n').forEach((line, i) => {
+    if (!line.trim() || line.trim().startsWith('//')) return;
+    let json: unknown;
+    try {
+      json = JSON.parse(line);
+    } catch {
+      throw new Error(`Line ${i + 1}: invalid JSON`);
+    }
+    const parsed = goldenQuestionSchema.safeParse(json);
+    if (!parsed.success) throw new Error(`Line ${i + 1}: ${z.prettifyError(parsed.error)}`);
+    questions.push({ ...parsed.data, id: parsed.data.id ?? `line-${i + 1}` });
+  });
+
+  const ids = new Set<string>();
+  for (const { id } of questions) {
+    if (ids.has(id)) throw new Error(`Duplicate question id: ${id}`);
+    ids.add(id);
+  }
+  return questions;
+}
+
+export async function loadGoldenSet(path: string): Promise<GoldenQuestion[]> {
+  return parseGoldenSet(await readFile(path, 'utf8'));
+}
@@ -0,0 +1,42 @@
+import { FakeListChatModel } from '@langchain/core/utils/testing';
+import { extractInvoiceWithLlm, invoiceFieldsFromForm, mergeInvoiceFields } from './invoice-extractor';
+
+describe('invoice extraction', () => {
+  const form = invoiceFieldsFromForm({
+    'Invoice No': 'INV-1001',
+    Subtotal: '$1,000.00',
+    Total: '$1,200.00',
+    'Bill To': 'ACME',
+    Notes: 'Leave at the door',
+  });
+
+  it('maps AcroForm field names to invoice fields', () => {
+    expect(form).toEqual({ invoiceNumber: 'INV-1001', subtotal: 1000, total: 1200, customer: 'ACME' });
+  });
+
+  it('merges LLM JSON under the form values', async () => {
+    const llm = new FakeListChatModel({
+      responses: [
+        '```json\n' +
+          JSON.stringify({
+            invoiceNumber: 'INV-1001',
+            customer: 'ACME Corp',
+            total: 1100,
+            carrier: 'FastExpress',
+            lineItems: [{ description: 'Widget', quantity: '10', unitPrice: '100', amount: '1.000,00' }],
+          }) +
+          '\n```',
+      ],
+    });
+
+    const { fields, extractedBy } = mergeInvoiceFields(form, await extractInvoiceWithLlm(llm, 'Invoice', {}));
+    expect(extractedBy).toBe('form+llm');
+    expect(fields).toMatchObject({ customer: 'ACME', total: 1200, carrier: 'FastExpress' });
+    expect(fields.lineItems).toEqual([{ description: 'Widget', quantity: 10, unitPrice: 100, amount: 1000 }]);
+  });
+
+  it('rejects replies that do not fit the schema', async () => {
+    const llm = new FakeListChatModel({ responses: ['{"lineItems": "none"}'] });
+    await expect(extractInvoiceWithLlm(llm, 'Invoice', {})).rejects.toThrow(/lineItems/);
+  });
+});
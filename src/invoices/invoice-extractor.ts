@@ -0,0 +1,130 @@
+import { z } from 'zod/v4';
+import type { BaseChatModel } from '@langchain/core/language_models/chat_models';
+import { ChatPromptTemplate } from '@langchain/core/prompts';
+import { JsonOutputParser } from '@langchain/core/output_parsers';
+
+/** "$1,234.50", "1.234,50 EUR" or 1234.5 → 1234.5; empty or unreadable → null. */
+function toAmount(value: unknown): number | null {
+  if (typeof value === 'number') return Number.isFinite(value) ? value : null;
+  if (typeof value !== 'string') return null;
+  let s = value.replace(/[^\d.,-]/g, '');
+  // Decimal comma when the last separator is a comma followed by 1–2 digits.
+  if (/,\d{1,2}$/.test(s)) s = s.replace(/\./g, '').replace(',', '.');
+  const n = parseFloat(s.replace(/,/g, ''));
+  return Number.isNaN(n) ? null : n;
+}
+
+const amount = z.preprocess(toAmount, z.number().nullable()).optional();
+const text = z.string().trim().nullish();
+
+export const invoiceFieldsSchema = z.object({
+  invoiceNumber: text,
+  date: text,
+  customer: text,
+  currency: text,
+  subtotal: amount,
+  tax: amount,
+  total: amount,
+  carrier: text,
+  trackingId: text,
+  lineItems: z
+    .array(
+      z.object({
+        description: z.string().trim(),
+        sku: text,
+        quantity: amount,
+        unitPrice: amount,
+        amount,
+      }),
+    )
+    .nullish(),
+});
+
+export type InvoiceFields = z.infer<typeof invoiceFieldsSchema>;
+
+/** Form field name patterns per invoice field; the first field whose name matches wins. */
+const FORM_FIELD_PATTERNS: [Exclude<keyof InvoiceFields, 'lineItems'>, RegExp][] = [
+  ['invoiceNumber', /^(invoice|inv)[\s_-]*(no|num|number|#|id)?$/i],
+  ['date', /^(invoice[\s_-]*)?date$/i],
+  ['customer', /customer|bill[\s_-]*to|client|buyer|sold[\s_-]*to/i],
+  ['currency', /currency/i],
+  ['subtotal', /sub[\s_-]*total/i],
+  ['tax', /^(tax|vat|gst)/i],
+  ['total', /^(grand[\s_-]*)?total|amount[\s_-]*due|balance[\s_-]*due/i],
+  ['carrier', /carrier|courier|shipper|ship[\s_-]*via/i],
+  ['trackingId', /tracking/i],
+];
+
+/** Invoice fields read from named AcroForm fields (no line items: forms rarely structure them). */
+export function invoiceFieldsFromForm(formFields: Record<string, string>): InvoiceFields {
+  const raw: Record<string, string> = {};
+  for (const [name, value] of Object.entries(formFields)) {
+    const match = FORM_FIELD_PATTERNS.find(([field, pattern]) => !(field in raw) && pattern.test(name.trim()));
+    if (match) raw[match[0]] = value;
+  }
+  return invoiceFieldsSchema.parse(raw);
+}
+
+/** Cheap pre-check before spending an LLM call: tagged as an invoice, or says so near the top. */
+export function looksLikeInvoice(content: string, metadata: Record<string, unknown>): boolean {
+  if (typeof metadata.docType === 'string') return metadata.docType.toLowerCase() === 'invoice';
+  return /\binvoice\b/i.test(content.slice(0, 2000));
+}
+
+const EXTRACTION_PROMPT = ChatPromptTemplate.fromMessages([
+  [
+    'system',
+    [
+      'You extract structured data from invoices.',
+      'Reply with one JSON object and nothing else, with exactly these keys:',
+      'invoiceNumber, date (YYYY-MM-DD), customer, currency (ISO 4217 code), subtotal, tax, total,',
+      'carrier, trackingId, lineItems (array of {{description, sku, quantity, unitPrice, amount}}).',
+      'Amounts are plain numbers without currency symbols or thousands separators.',
+      'Use null for anything the document does not state. Do not guess.',
+    ].join(' '),
+  ],
+  ['human', 'Form fields:\n{formFields}\n\nDocument text:\n{text}'],
+]);
+
+/** JSON extraction through the chat model, validated against invoiceFieldsSchema. */
+export async function extractInvoiceWithLlm(
+  llm: BaseChatModel,
+  content: string,
+  formFields: Record<string, string>,
+  signal?: AbortSignal,
+): Promise<InvoiceFields> {
+  const reply = await EXTRACTION_PROMPT.pipe(llm)
+    .pipe(new JsonOutputParser())
+    .invoke(
+      {
+        formFields:
+          Object.entries(formFields)
+            .map(([name, value]) => `${name}: ${value}`)
+            .join('\n') || '(none)',
+        text: content,
+      },
+      { signal },
+    );
+
+  const parsed = invoiceFieldsSchema.safeParse(reply);
+  if (!parsed.success) {
+    throw new Error(`Invoice extraction returned invalid JSON: ${z.prettifyError(parsed.error)}`);
+  }
+  return parsed.data;
+}
+
+/** Form values win over LLM values (they are exact); line items come from the LLM. */
+export function mergeInvoiceFields(
+  form: InvoiceFields,
+  llm: InvoiceFields,
+): { fields: InvoiceFields; extractedBy: 'form' | 'llm' | 'form+llm' } {
+  const fromForm = Object.fromEntries(Object.entries(form).filter(([, v]) => v != null));
+  const usedForm = Object.keys(fromForm).length > 0;
+  const usedLlm = Object.entries(llm).some(
+    ([k, v]) => v != null && (k === 'lineItems' ? (v as unknown[]).length > 0 : !(k in fromForm)),
+  );
+  return {
+    fields: { ...llm, ...fromForm },
+    extractedBy: usedForm && usedLlm ? 'form+llm' : usedForm ? 'form' : 'llm',
+  };
+}
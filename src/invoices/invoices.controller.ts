@@ -0,0 +1,36 @@
+import { Controller, Get, NotFoundException, Param, Post, Query } from '@nestjs/common';
+import { InvoicesService } from './invoices.service';
+import { accessScopeOf, CurrentKey, Roles, type ApiKeyPrincipal } from '../auth/auth.decorators';
+
+@Roles(['query'])
+@Controller('invoices')
+export class InvoicesController {
+  constructor(private readonly invoicesService: InvoicesService) { }
+
+  @Get()
+  list(
+    @Query('knowledgeBaseId') knowledgeBaseId?: string,
+    @Query('customer') customer?: string,
+    @CurrentKey() key?: ApiKeyPrincipal,
+  ) {
+    return this.invoicesService.list({ knowledgeBaseId, customer, access: accessScopeOf(key) });
+  }
+
+  @Get(':number')
+  get(
+    @Param('number') number: string,
+    @Query('knowledgeBaseId') knowledgeBaseId?: string,
+    @CurrentKey() key?: ApiKeyPrincipal,
+  ) {
+    return this.invoicesService.get(number, knowledgeBaseId || undefined, accessScopeOf(key));
+  }
+
+  /** Run extraction again for a registered document, e.g. after changing the chat model. */
+  @Post('extract/:documentId')
+  @Roles(['ingest'])
+  async extract(@Param('documentId') documentId: string) {
+    const invoice = await this.invoicesService.extractFromDocument(documentId);
+    if (!invoice) throw new NotFoundException(`No invoice number found in document ${documentId}`);
+    return invoice;
+  }
+}
@@ -0,0 +1,249 @@
+import { ConflictException, Injectable, NotFoundException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Prisma, type Invoice, type InvoiceLineItem } from '@prisma/client';
+import { existsSync } from 'fs';
+import { extname } from 'path';
+import { PrismaService } from '../prisma/prisma.service';
+import { AppLogger } from '../common/app-logger';
+import { ModelProviderService } from '../models/model-provider.service';
+import { DEFAULT_KNOWLEDGE_BASE } from '../rag/rag.service';
+import { extractAcroFormFields } from '../chat/helper/pdf.loader';
+import { isReadable, scopeEntries, type AccessScope } from '../chat/helper/access-control';
+import {
+  extractInvoiceWithLlm,
+  invoiceFieldsFromForm,
+  looksLikeInvoice,
+  mergeInvoiceFields,
+  type InvoiceFields,
+} from './invoice-extractor';
+
+type InvoiceWithItems = Invoice & { lineItems: InvoiceLineItem[] };
+
+const toNumber = (value: Prisma.Decimal | null) => (value == null ? null : value.toNumber());
+
+function toDate(value: string | null | undefined): Date | null {
+  if (!value) return null;
+  const time = Date.parse(value);
+  return Number.isNaN(time) ? null : new Date(time);
+}
+
+/**
+ * Typed invoice records extracted from ingested documents: AcroForm values (exact, when the
+ * PDF is a filled form) merged with JSON extraction by the chat model. Runs after ingest for
+ * documents that look like invoices unless INVOICE_EXTRACTION=off. With `access` reads only
+ * return invoices whose source document the caller may read.
+ */
+@Injectable()
+export class InvoicesService {
+  private readonly appLog = new AppLogger(InvoicesService.name);
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly prisma: PrismaService,
+    private readonly models: ModelProviderService,
+  ) { }
+
+  async list(filter: { knowledgeBaseId?: string; customer?: string; access?: AccessScope }) {
+    const invoices = await this.prisma.invoice.findMany({
+      where: {
+        ...(filter.knowledgeBaseId ? { knowledgeBaseId: filter.knowledgeBaseId } : {}),
+        ...(filter.customer ? { customer: { contains: filter.customer, mode: 'insensitive' } } : {}),
+        ...(filter.access
+          ? { documentId: { in: await this.readableDocumentIds(filter.access, filter.knowledgeBaseId) } }
+          : {}),
+      },
+      include: { lineItems: { orderBy: { position: 'asc' } } },
+      orderBy: [{ date: 'desc' }, { createdAt: 'desc' }],
+      take: 200,
+    });
+    return invoices.map((invoice) => this.toView(invoice));
+  }
+
+  async get(number: string, knowledgeBaseId = DEFAULT_KNOWLEDGE_BASE, access?: AccessScope) {
+    const found = await this.prisma.invoice.findUnique({
+      where: { knowledgeBaseId_number: { knowledgeBaseId, number } },
+      include: { lineItems: { orderBy: { position: 'asc' } }, document: { select: { metadata: true } } },
+    });
+    // Invoices without a source document have no ACL to check; only unrestricted callers see them.
+    const readable =
+      !access ||
+      (found?.document != null &&
+        isReadable((found.document.metadata ?? {}) as Record<string, unknown>, scopeEntries(access)));
+    if (!found || !readable) throw new NotFoundException(`Invoice ${number} not found`);
+    const { document: _document, ...invoice } = found;
+    return this.toView(invoice);
+  }
+
+  /** Documents (of one knowledge base, if given) that have no ACL or one matching the caller. */
+  private async readableDocumentIds(access: AccessScope, knowledgeBaseId?: string): Promise<string[]> {
+    const rows = await this.prisma.$queryRaw<{ id: string }[]>`
+      SELECT d."id" FROM "Document" d
+      WHERE ${knowledgeBaseId ? Prisma.sql`d."knowledgeBaseId" = ${knowledgeBaseId}` : Prisma.sql`TRUE`}
+        AND (COALESCE(d."metadata"->'access', '[]'::jsonb) = '[]'::jsonb
+             OR d."metadata"->'access' ?| ${scopeEntries(access)}::text[])`;
+    return rows.map((row) => row.id);
+  }
+
+  /**
+   * Background extraction after ingest: documents that do not look like invoices are skipped,
+   * failures are logged. Runs one document at a time to keep load on the chat model low.
+   */
+  scheduleExtraction(documentIds: string[]): void {
+    if (documentIds.length === 0 || this.configService.get<string>('INVOICE_EXTRACTION') === 'off') return;
+    void (async () => {
+      for (const documentId of documentIds) {
+        try {
+          await this.extractFromDocument(documentId, { onlyInvoices: true });
+        } catch (err) {
+          this.appLog.warn('Invoice extraction failed', {
+            documentId,
+            error: err instanceof Error ? err.message : String(err),
+          });
+        }
+      }
+    })();
+  }
+
+  /**
+   * Extract and store the invoice of a registered document, replacing the document's earlier
+   * record with the same number. Invoices extracted earlier from the same document under another
+   * number are deleted, as are all of them when the new content holds no invoice. A number that
+   * another document of the knowledge base already backs is a conflict; that record is kept.
+   * Returns null when no invoice number was found (or, with `onlyInvoices`, when the document
+   * does not look like an invoice).
+   */
+  async extractFromDocument(documentId: string, options: { onlyInvoices?: boolean } = {}) {
+    const document = await this.prisma.document.findUnique({ where: { id: documentId } });
+    if (!document) throw new NotFoundException(`Document ${documentId} not found`);
+
+    const metadata = (document.metadata ?? {}) as Record<string, unknown>;
+    if (options.onlyInvoices && !looksLikeInvoice(document.content, metadata)) {
+      await this.deletePreviousInvoices(documentId);
+      return null;
+    }
+
+    const isPdf =
+      metadata.fileType === 'pdf' || extname(document.filename ?? document.filePath ?? '').toLowerCase() === '.pdf';
+    const formFields =
+      isPdf && document.filePath && existsSync(document.filePath)
+        ? extractAcroFormFields(document.filePath)
+        : {};
+
+    const maxChars = parseInt(this.configService.get('INVOICE_EXTRACTION_MAX_CHARS') ?? '8000', 10);
+    let llmFields: InvoiceFields = {};
+    let llmFailed = false;
+    try {
+      llmFields = (
+        await this.models.runWithFallback(undefined, (llm, signal) =>
+          extractInvoiceWithLlm(llm, document.content.slice(0, maxChars), formFields, signal),
+        )
+      ).result;
+    } catch (err) {
+      // Form values alone still make a usable record.
+      llmFailed = true;
+      this.appLog.warn('LLM invoice extraction failed; using form fields only', {
+        documentId,
+        formFields: Object.keys(formFields).length,
+        error: err instanceof Error ? err.message : String(err),
+      });
+    }
+
+    const { fields, extractedBy } = mergeInvoiceFields(invoiceFieldsFromForm(formFields), llmFields);
+    if (!fields.invoiceNumber) {
+      this.appLog.debug('No invoice number found; nothing stored', { documentId });
+      // A failed model call says nothing about the content, so earlier records are kept then.
+      if (!llmFailed) await this.deletePreviousInvoices(documentId);
+      return null;
+    }
+
+    const knowledgeBaseId = document.knowledgeBaseId;
+    const number = fields.invoiceNumber;
+    const owner = await this.prisma.invoice.findUnique({
+      where: { knowledgeBaseId_number: { knowledgeBaseId, number } },
+      select: { documentId: true },
+    });
+    if (owner?.documentId && owner.documentId !== documentId) {
+      // Taking the record over would move it under this document's ACL and cascade.
+      await this.deletePreviousInvoices(documentId);
+      this.appLog.warn('Invoice number already extracted from another document; record kept', {
+        documentId,
+        knowledgeBaseId,
+        number,
+        ownerDocumentId: owner.documentId,
+      });
+      throw new ConflictException(`Invoice ${number} already belongs to document ${owner.documentId}`);
+    }
+
+    const data = {
+      documentId,
+      date: toDate(fields.date),
+      customer: fields.customer ?? null,
+      currency: fields.currency?.toUpperCase() ?? null,
+      subtotal: fields.subtotal ?? null,
+      tax: fields.tax ?? null,
+      total: fields.total ?? null,
+      carrier: fields.carrier ?? null,
+      trackingId: fields.trackingId ?? null,
+      extractedBy,
+      formFields: formFields as Prisma.InputJsonValue,
+    };
+    const lineItems = (fields.lineItems ?? [])
+      .filter((item) => item.description)
+      .map((item, position) => ({
+        position,
+        description: item.description,
+        sku: item.sku ?? null,
+        quantity: item.quantity ?? null,
+        unitPrice: item.unitPrice ?? null,
+        amount: item.amount ?? null,
+      }));
+
+    const invoice = await this.prisma.$transaction(async (tx) => {
+      await tx.invoice.deleteMany({ where: { documentId, number: { not: number } } });
+      const saved = await tx.invoice.upsert({
+        where: { knowledgeBaseId_number: { knowledgeBaseId, number } },
+        create: { knowledgeBaseId, number, ...data },
+        update: data,
+      });
+      await tx.invoiceLineItem.deleteMany({ where: { invoiceId: saved.id } });
+      await tx.invoiceLineItem.createMany({
+        data: lineItems.map((item) => ({ ...item, invoiceId: saved.id })),
+      });
+      return tx.invoice.findUniqueOrThrow({
+        where: { id: saved.id },
+        include: { lineItems: { orderBy: { position: 'asc' } } },
+      });
+    });
+
+    this.appLog.log('Invoice extracted', {
+      documentId,
+      knowledgeBaseId,
+      number: invoice.number,
+      extractedBy,
+      lineItems: lineItems.length,
+    });
+    return this.toView(invoice);
+  }
+
+  /** Drop the invoices extracted from a document whose content changed; line items cascade. */
+  private async deletePreviousInvoices(documentId: string): Promise<void> {
+    const { count } = await this.prisma.invoice.deleteMany({ where: { documentId } });
+    if (count > 0) this.appLog.log('Stale invoices removed', { documentId, count });
+  }
+
+  /** Decimals as numbers, line items without their foreign key. */
+  private toView({ lineItems, ...invoice }: InvoiceWithItems) {
+    return {
+      ...invoice,
+      subtotal: toNumber(invoice.subtotal),
+      tax: toNumber(invoice.tax),
+      total: toNumber(invoice.total),
+      lineItems: lineItems.map(({ invoiceId: _invoiceId, ...item }) => ({
+        ...item,
+        quantity: toNumber(item.quantity),
+        unitPrice: toNumber(item.unitPrice),
+        amount: toNumber(item.amount),
+      })),
+    };
+  }
+}
@@ -0,0 +1,16 @@
+import { IsOptional, IsString, Matches } from 'class-validator';
+
+export class CreateKnowledgeBaseDto {
+  /** Slug passed as `knowledgeBaseId` on ingest, upload and ask. */
+  @Matches(/^[a-z0-9][a-z0-9_-]{0,62}$/, {
+    message: 'id must be lowercase letters, digits, "-" or "_" (max 63 characters)',
+  })
+  id: string;
+
+  @IsString()
+  name: string;
+
+  @IsOptional()
+  @IsString()
+  description?: string;
+}
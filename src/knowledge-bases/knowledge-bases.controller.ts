@@ -0,0 +1,32 @@
+import { Body, Controller, Delete, Get, Param, Post } from '@nestjs/common';
+import { KnowledgeBasesService } from './knowledge-bases.service';
+import { CreateKnowledgeBaseDto } from './dto/create-knowledge-base.dto';
+import { Roles } from '../auth/auth.decorators';
+
+@Roles(['query'])
+@Controller('knowledge-bases')
+export class KnowledgeBasesController {
+  constructor(private readonly knowledgeBasesService: KnowledgeBasesService) { }
+
+  @Get()
+  list() {
+    return this.knowledgeBasesService.list();
+  }
+
+  @Post()
+  @Roles(['admin'])
+  create(@Body() body: CreateKnowledgeBaseDto) {
+    return this.knowledgeBasesService.create(body);
+  }
+
+  @Get(':id')
+  get(@Param('id') id: string) {
+    return this.knowledgeBasesService.get(id);
+  }
+
+  @Delete(':id')
+  @Roles(['admin'])
+  delete(@Param('id') id: string) {
+    return this.knowledgeBasesService.delete(id);
+  }
+}
@@ -0,0 +1,13 @@
+import { Module } from '@nestjs/common';
+import { KnowledgeBasesController } from './knowledge-bases.controller';
+import { KnowledgeBasesService } from './knowledge-bases.service';
+import { RagModule } from '../rag/rag.module';
+import { ChatModule } from '../chat/chat.module';
+
+@Module({
+  imports: [RagModule, ChatModule],
+  controllers: [KnowledgeBasesController],
+  providers: [KnowledgeBasesService],
+  exports: [KnowledgeBasesService],
+})
+export class KnowledgeBasesModule { }
@@ -0,0 +1,82 @@
+import {
+  BadRequestException,
+  ConflictException,
+  Injectable,
+  NotFoundException,
+  OnModuleInit,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { DEFAULT_KNOWLEDGE_BASE, RagService } from '../rag/rag.service';
+import { ChatService } from '../chat/chat.service';
+import { AppLogger } from '../common/app-logger';
+import { CreateKnowledgeBaseDto } from './dto/create-knowledge-base.dto';
+
+/** Knowledge bases (tenants): registry rows in Postgres, each with its own vector collection. */
+@Injectable()
+export class KnowledgeBasesService implements OnModuleInit {
+  private readonly appLog = new AppLogger(KnowledgeBasesService.name);
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly ragService: RagService,
+    private readonly chatService: ChatService,
+  ) { }
+
+  /** Register the default knowledge base so it is listed like the others. */
+  async onModuleInit() {
+    try {
+      await this.ragService.ensureKnowledgeBase({
+        id: DEFAULT_KNOWLEDGE_BASE,
+        name: 'Default',
+        collection: this.baseCollection(),
+      });
+    } catch (err) {
+      this.appLog.warn('Default knowledge base not registered (database unavailable?)', {
+        error: err instanceof Error ? err.message : String(err),
+      });
+    }
+  }
+
+  private baseCollection(): string {
+    return this.configService.get<string>('QDRANT_COLLECTION') ?? 'rag_docs';
+  }
+
+  list() {
+    return this.ragService.listKnowledgeBases();
+  }
+
+  async get(id: string) {
+    const knowledgeBase = await this.ragService.getKnowledgeBase(id);
+    if (!knowledgeBase) throw new NotFoundException(`Knowledge base ${id} not found`);
+    return knowledgeBase;
+  }
+
+  async create(dto: CreateKnowledgeBaseDto) {
+    if (await this.ragService.getKnowledgeBase(dto.id)) {
+      throw new ConflictException(`Knowledge base ${dto.id} already exists`);
+    }
+    const knowledgeBase = await this.ragService.createKnowledgeBase({
+      id: dto.id,
+      name: dto.name,
+      description: dto.description,
+      collection: `${this.baseCollection()}_${dto.id}`,
+    });
+    this.appLog.log('Knowledge base created', {
+      knowledgeBaseId: knowledgeBase.id,
+      collection: knowledgeBase.collection,
+    });
+    return knowledgeBase;
+  }
+
+  /** Drops the vector collection and every registered document of the knowledge base. */
+  async delete(id: string) {
+    if (id === DEFAULT_KNOWLEDGE_BASE) {
+      throw new BadRequestException('The default knowledge base cannot be deleted');
+    }
+    const knowledgeBase = await this.get(id);
+    await this.chatService.dropKnowledgeBaseStore(knowledgeBase);
+    const documentsDeleted = await this.ragService.deleteKnowledgeBase(id);
+    this.appLog.log('Knowledge base deleted', { knowledgeBaseId: id, documentsDeleted });
+    return { success: true, id, documentsDeleted };
+  }
+}
@@ -0,0 +1,56 @@
+import { FakeEmbeddings } from '@langchain/core/utils/testing';
+import { CachedEmbeddings, type EmbeddingCacheStore } from './cached-embeddings';
+
+class MemoryCacheStore implements EmbeddingCacheStore {
+  readonly vectors = new Map<string, number[]>();
+
+  async get(model: string, kind: string, hashes: string[]) {
+    const found = new Map<string, number[]>();
+    for (const hash of hashes) {
+      const vector = this.vectors.get(`${model}/${kind}/${hash}`);
+      if (vector) found.set(hash, vector);
+    }
+    return found;
+  }
+
+  async set(model: string, kind: string, entries: { hash: string; embedding: number[] }[]) {
+    for (const e of entries) this.vectors.set(`${model}/${kind}/${e.hash}`, e.embedding);
+  }
+}
+
+describe('CachedEmbeddings', () => {
+  it('embeds only texts missing from the cache, in batches', async () => {
+    const inner = new FakeEmbeddings();
+    const embedDocuments = jest.spyOn(inner, 'embedDocuments');
+    const store = new MemoryCacheStore();
+    const embeddings = new CachedEmbeddings(inner, 'ollama:test', store, 2);
+
+    await embeddings.embedDocuments(['a', 'b', 'c', 'a']);
+    expect(embedDocuments.mock.calls.map(([texts]) => texts)).toEqual([['a', 'b'], ['c']]);
+
+    embedDocuments.mockClear();
+    const vectors = await embeddings.embedDocuments(['a', 'c', 'd']);
+    expect(embedDocuments.mock.calls).toEqual([[['d']]]);
+    expect(vectors).toHaveLength(3);
+  });
+
+  it('keeps query vectors apart from document vectors', async () => {
+    const inner = new FakeEmbeddings();
+    const embedQuery = jest.spyOn(inner, 'embedQuery');
+    const embeddings = new CachedEmbeddings(inner, 'ollama:test', new MemoryCacheStore());
+
+    await embeddings.embedDocuments(['refund policy']);
+    await embeddings.embedQuery('refund policy');
+    await embeddings.embedQuery('refund policy');
+    expect(embedQuery).toHaveBeenCalledTimes(1);
+  });
+
+  it('falls back to the model when the cache is unavailable', async () => {
+    const store: EmbeddingCacheStore = {
+      get: () => Promise.reject(new Error('connection refused')),
+      set: () => Promise.reject(new Error('connection refused')),
+    };
+    const embeddings = new CachedEmbeddings(new FakeEmbeddings(), 'ollama:test', store);
+    await expect(embeddings.embedDocuments(['x'])).resolves.toHaveLength(1);
+  });
+});
@@ -0,0 +1,106 @@
+import { Embeddings } from '@langchain/core/embeddings';
+import { sha256 } from '../chat/helper/hash';
+import { AppLogger } from '../common/app-logger';
+
+/** Documents and queries are cached apart: some providers embed them differently. */
+export type EmbeddingKind = 'document' | 'query';
+
+/** Persistent vectors keyed by model, kind and sha256 of the text. */
+export interface EmbeddingCacheStore {
+  get(model: string, kind: EmbeddingKind, hashes: string[]): Promise<Map<string, number[]>>;
+  set(
+    model: string,
+    kind: EmbeddingKind,
+    entries: { hash: string; embedding: number[] }[],
+  ): Promise<void>;
+}
+
+/**
+ * Embeddings wrapper that only sends texts missing from the cache to the model, in batches of
+ * `batchSize`, and stores the new vectors. Identical texts within one call are embedded once.
+ * Cache errors are logged and fall through to the model, so a missing database only costs
+ * the savings.
+ */
+export class CachedEmbeddings extends Embeddings {
+  private readonly appLog = new AppLogger(CachedEmbeddings.name);
+  private hits = 0;
+  private misses = 0;
+
+  constructor(
+    private readonly inner: Embeddings,
+    /** `"provider:model"`; vectors of different models are never mixed. */
+    private readonly model: string,
+    private readonly store: EmbeddingCacheStore,
+    private readonly batchSize = 32,
+  ) {
+    super({});
+  }
+
+  embedDocuments(texts: string[]): Promise<number[][]> {
+    return this.embed(texts, 'document');
+  }
+
+  async embedQuery(text: string): Promise<number[]> {
+    const [vector] = await this.embed([text], 'query');
+    return vector;
+  }
+
+  private async embed(texts: string[], kind: EmbeddingKind): Promise<number[][]> {
+    if (texts.length === 0) return [];
+    const hashes = texts.map(sha256);
+
+    let cached = new Map<string, number[]>();
+    try {
+      cached = await this.store.get(this.model, kind, [...new Set(hashes)]);
+    } catch (err) {
+      this.appLog.warn('Embedding cache read failed; embedding everything', {
+        error: err instanceof Error ? err.message : String(err),
+      });
+    }
+
+    const missing = new Map<string, string>();
+    hashes.forEach((hash, i) => {
+      if (!cached.has(hash)) missing.set(hash, texts[i]);
+    });
+
+    const fresh: { hash: string; embedding: number[] }[] = [];
+    const pending = [...missing];
+    for (let i = 0; i < pending.length; i += this.batchSize) {
+      const batch = pending.slice(i, i + this.batchSize);
+      const vectors =
+        kind === 'query'
+          ? [await this.inner.embedQuery(batch[0][1])]
+          : await this.inner.embedDocuments(batch.map(([, text]) => text));
+      batch.forEach(([hash], j) => fresh.push({ hash, embedding: vectors[j] }));
+    }
+
+    if (fresh.length > 0) {
+      try {
+        await this.store.set(this.model, kind, fresh);
+      } catch (err) {
+        this.appLog.warn('Embedding cache write failed', {
+          error: err instanceof Error ? err.message : String(err),
+        });
+      }
+    }
+
+    const hits = texts.length - missing.size;
+    this.hits += hits;
+    this.misses += missing.size;
+    const stats = {
+      model: this.model,
+      kind,
+      texts: texts.length,
+      hits,
+      embedded: missing.size,
+      batches: Math.ceil(missing.size / this.batchSize),
+      hitRate: `${Math.round((hits / texts.length) * 100)}%`,
+      totalHitRate: `${Math.round((this.hits / (this.hits + this.misses)) * 100)}%`,
+    };
+    if (kind === 'document') this.appLog.log('Embedding cache', stats);
+    else this.appLog.debug('Embedding cache', stats);
+
+    const byHash = new Map([...cached, ...fresh.map((f) => [f.hash, f.embedding] as const)]);
+    return hashes.map((hash) => byHash.get(hash)!);
+  }
+}
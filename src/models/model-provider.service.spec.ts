@@ -0,0 +1,84 @@
+import { ServiceUnavailableException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { ModelProviderService, parseModelRef } from './model-provider.service';
+import type { PrismaService } from '../prisma/prisma.service';
+
+describe('ModelProviderService', () => {
+  const service = new ModelProviderService(
+    new ConfigService({
+      LLM_PROVIDER: 'ollama',
+      CHAT_MODEL: 'llama3.2:3b',
+      LLM_FALLBACK_MODELS: 'tinyllama, llama3.2:3b, openai:gpt-4o-mini',
+      OPENAI_BASE_URL: 'http://localhost:8080/v1',
+      LLM_MAX_RETRIES: '1',
+      LLM_RETRY_BASE_DELAY_MS: '1',
+      LLM_TIMEOUT_MS: '50',
+    }),
+    {} as PrismaService,
+  );
+
+  it('reads Ollama tags as model names', () => {
+    expect(parseModelRef('llama3.2:3b', 'openai')).toEqual({ provider: 'openai', model: 'llama3.2:3b' });
+    expect(parseModelRef('gemini:gemini-1.5-pro', 'ollama')).toEqual({
+      provider: 'gemini',
+      model: 'gemini-1.5-pro',
+    });
+  });
+
+  it('orders the fallback chain after the requested model without duplicates', () => {
+    expect(service.chatModelChain().map((r) => `${r.provider}:${r.model}`)).toEqual([
+      'ollama:llama3.2:3b',
+      'ollama:tinyllama',
+      'openai:gpt-4o-mini',
+    ]);
+  });
+
+  it('retries, then answers with the next model', async () => {
+    const calls: string[] = [];
+    const run = await service.runWithFallback(undefined, async (llm) => {
+      const model = (llm as unknown as { model: string }).model;
+      calls.push(model);
+      if (model === 'llama3.2:3b') throw new Error('model requires more system memory');
+      return 'ok';
+    });
+
+    expect(calls).toEqual(['llama3.2:3b', 'llama3.2:3b', 'tinyllama']);
+    expect(run).toMatchObject({
+      result: 'ok',
+      model: { provider: 'ollama', model: 'tinyllama' },
+      fallback: true,
+      attempts: 1,
+    });
+  });
+
+  it('sends an OpenRouter key to OpenRouter, not api.openai.com', () => {
+    const openRouter = new ModelProviderService(
+      new ConfigService({ OPENAI_API_KEY: '', OPENROUTER_API_KEY: 'sk-or-test' }),
+      {} as PrismaService,
+    );
+    const llm = openRouter.getChatModel('openai:openai/gpt-4o-mini') as unknown as {
+      clientConfig: { apiKey?: string; baseURL?: string };
+    };
+
+    expect(llm.clientConfig).toMatchObject({
+      apiKey: 'sk-or-test',
+      baseURL: 'https://openrouter.ai/api/v1',
+    });
+  });
+
+  it('treats blank model settings as unset', () => {
+    const blank = new ModelProviderService(
+      new ConfigService({ CHAT_MODEL: '', EMBEDDINGS_MODEL: ' ', CHAT_OLLAMA_MODEL: 'llama3.2:3b' }),
+      {} as PrismaService,
+    );
+
+    expect(blank.defaultChatModel()).toEqual({ provider: 'ollama', model: 'llama3.2:3b' });
+    expect(blank.embeddingsModel().model).not.toBe('');
+  });
+
+  it('times out hung calls and reports 503 when every model fails', async () => {
+    await expect(
+      service.runWithFallback(undefined, () => new Promise<string>(() => undefined)),
+    ).rejects.toBeInstanceOf(ServiceUnavailableException);
+  });
+});
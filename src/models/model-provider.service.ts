@@ -0,0 +1,313 @@
+import { BadRequestException, Injectable, ServiceUnavailableException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import type { BaseChatModel } from '@langchain/core/language_models/chat_models';
+import type { Embeddings } from '@langchain/core/embeddings';
+import { ChatOllama, OllamaEmbeddings } from '@langchain/ollama';
+import { ChatOpenAI, OpenAIEmbeddings } from '@langchain/openai';
+import {
+  ChatGoogleGenerativeAI,
+  GoogleGenerativeAIEmbeddings,
+} from '@langchain/google-genai';
+import { AppLogger } from '../common/app-logger';
+import { PrismaService } from '../prisma/prisma.service';
+import { CachedEmbeddings, type EmbeddingCacheStore } from './cached-embeddings';
+
+export const MODEL_PROVIDERS = ['ollama', 'openai', 'gemini'] as const;
+export type ModelProvider = (typeof MODEL_PROVIDERS)[number];
+
+export interface ModelRef {
+  provider: ModelProvider;
+  model: string;
+}
+
+/** Result of runWithFallback(): the value and the model that produced it. */
+export interface ModelRun<T> {
+  result: T;
+  model: ModelRef;
+  /** True when the requested/default model failed and a fallback answered. */
+  fallback: boolean;
+  /** Attempts made on the answering model (1 = first try). */
+  attempts: number;
+}
+
+const DEFAULT_CHAT_MODELS: Record<ModelProvider, string> = {
+  ollama: 'llama3.2:3b',
+  openai: 'gpt-4o-mini',
+  gemini: 'gemini-1.5-flash',
+};
+
+const DEFAULT_EMBEDDING_MODELS: Record<ModelProvider, string> = {
+  ollama: 'mxbai-embed-large',
+  openai: 'text-embedding-3-small',
+  gemini: 'text-embedding-004',
+};
+
+/** Used when the openai provider runs on OPENROUTER_API_KEY without an OPENAI_BASE_URL. */
+const OPENROUTER_BASE_URL = 'https://openrouter.ai/api/v1';
+
+function isProvider(value: string | undefined): value is ModelProvider {
+  return (MODEL_PROVIDERS as readonly string[]).includes(value ?? '');
+}
+
+/**
+ * `"provider:model"` or just `"model"` (default provider). Only known provider names count as a
+ * prefix, so Ollama tags such as `llama3.2:3b` are read as a model name.
+ */
+export function parseModelRef(ref: string, defaultProvider: ModelProvider): ModelRef {
+  const [prefix, ...rest] = ref.split(':');
+  return isProvider(prefix) && rest.length > 0
+    ? { provider: prefix, model: rest.join(':') }
+    : { provider: defaultProvider, model: ref };
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Run `fn` with an abort signal that fires after `ms`. The returned promise rejects on timeout
+ * even if the callee ignores the signal.
+ */
+async function withTimeout<T>(fn: (signal: AbortSignal) => Promise<T>, ms: number): Promise<T> {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(new Error(`timed out after ${ms} ms`)), ms);
+  try {
+    return await Promise.race([
+      fn(controller.signal),
+      new Promise<never>((_, reject) =>
+        controller.signal.addEventListener('abort', () => reject(controller.signal.reason)),
+      ),
+    ]);
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/**
+ * Builds chat and embedding models from config: Ollama, any OpenAI-compatible server
+ * (OpenAI, OpenRouter, llama.cpp, vLLM via OPENAI_BASE_URL) or Gemini. Instances are cached
+ * per provider/model.
+ */
+@Injectable()
+export class ModelProviderService {
+  private readonly appLog = new AppLogger(ModelProviderService.name);
+  private readonly chatModels = new Map<string, BaseChatModel>();
+  private embeddings?: Embeddings;
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly prisma: PrismaService,
+  ) { }
+
+  /** A trimmed setting; blank values (compose passes unset variables as "") count as unset. */
+  private setting(key: string): string | undefined {
+    return this.configService.get<string>(key)?.trim() || undefined;
+  }
+
+  private provider(key: string, fallback: ModelProvider): ModelProvider {
+    const value = this.configService.get<string>(key)?.trim().toLowerCase();
+    if (!value) return fallback;
+    if (!isProvider(value)) {
+      this.appLog.warn(`Unknown ${key}; using ${fallback}`, { value, supported: MODEL_PROVIDERS });
+      return fallback;
+    }
+    return value;
+  }
+
+  /** Configured default chat model (LLM_PROVIDER + CHAT_MODEL, or CHAT_OLLAMA_MODEL for Ollama). */
+  defaultChatModel(): ModelRef {
+    const provider = this.provider('LLM_PROVIDER', 'ollama');
+    const model =
+      this.setting('CHAT_MODEL') ??
+      (provider === 'ollama' ? this.setting('CHAT_OLLAMA_MODEL') : undefined) ??
+      DEFAULT_CHAT_MODELS[provider];
+    return { provider, model };
+  }
+
+  /** Resolve a per-request override (`"provider:model"` or `"model"`) against the defaults. */
+  resolveChatModel(override?: string): ModelRef {
+    const fallback = this.defaultChatModel();
+    return override?.trim() ? parseModelRef(override.trim(), fallback.provider) : fallback;
+  }
+
+  getChatModel(override?: string): BaseChatModel {
+    return this.chatModelFor(this.resolveChatModel(override));
+  }
+
+  private chatModelFor(ref: ModelRef): BaseChatModel {
+    const key = `${ref.provider}:${ref.model}`;
+    let llm = this.chatModels.get(key);
+    if (!llm) {
+      llm = this.createChatModel(ref);
+      this.chatModels.set(key, llm);
+      this.appLog.debug('Chat model created', { ...ref });
+    }
+    return llm;
+  }
+
+  /**
+   * Models tried in order: the requested (or default) model, then LLM_FALLBACK_MODELS
+   * (comma-separated refs; bare names use LLM_PROVIDER), without duplicates.
+   */
+  chatModelChain(override?: string): ModelRef[] {
+    const defaultProvider = this.defaultChatModel().provider;
+    const refs = [
+      this.resolveChatModel(override),
+      ...(this.configService.get<string>('LLM_FALLBACK_MODELS') ?? '')
+        .split(',')
+        .map((ref) => ref.trim())
+        .filter(Boolean)
+        .map((ref) => parseModelRef(ref, defaultProvider)),
+    ];
+    const seen = new Set<string>();
+    return refs.filter((ref) => {
+      const key = `${ref.provider}:${ref.model}`;
+      return seen.has(key) ? false : (seen.add(key), true);
+    });
+  }
+
+  /**
+   * Call a chat model with retries and a per-call timeout, moving down chatModelChain() when a
+   * model keeps failing. Each model gets LLM_MAX_RETRIES retries with exponential backoff from
+   * LLM_RETRY_BASE_DELAY_MS; every attempt is aborted after LLM_TIMEOUT_MS. Throws 503 when
+   * every model failed.
+   */
+  async runWithFallback<T>(
+    override: string | undefined,
+    call: (llm: BaseChatModel, signal: AbortSignal) => Promise<T>,
+  ): Promise<ModelRun<T>> {
+    const retries = parseInt(this.configService.get('LLM_MAX_RETRIES') ?? '2', 10);
+    const baseDelayMs = parseInt(this.configService.get('LLM_RETRY_BASE_DELAY_MS') ?? '500', 10);
+    const timeoutMs = parseInt(this.configService.get('LLM_TIMEOUT_MS') ?? '120000', 10);
+
+    const failures: string[] = [];
+    const chain = this.chatModelChain(override);
+    for (const [index, ref] of chain.entries()) {
+      let llm: BaseChatModel;
+      try {
+        llm = this.chatModelFor(ref);
+      } catch (err) {
+        failures.push(`${ref.provider}:${ref.model}: ${err instanceof Error ? err.message : String(err)}`);
+        continue;
+      }
+
+      for (let attempt = 1; attempt <= retries + 1; attempt++) {
+        try {
+          const result = await withTimeout((signal) => call(llm, signal), timeoutMs);
+          if (index > 0) {
+            this.appLog.warn('Answered by fallback chat model', { ...ref, failed: failures.length });
+          }
+          return { result, model: ref, fallback: index > 0, attempts: attempt };
+        } catch (err) {
+          const error = err instanceof Error ? err.message : String(err);
+          const retrying = attempt <= retries;
+          this.appLog.warn('Chat model call failed', { ...ref, attempt, retrying, error });
+          if (retrying) {
+            await sleep(baseDelayMs * 2 ** (attempt - 1));
+          } else {
+            failures.push(`${ref.provider}:${ref.model}: ${error}`);
+          }
+        }
+      }
+    }
+
+    throw new ServiceUnavailableException(`All chat models failed (${failures.join('; ')})`);
+  }
+
+  /** Configured embeddings model (EMBEDDINGS_PROVIDER + EMBEDDINGS_MODEL, or EMBEDDINGS_OLLAMA_MODEL). */
+  embeddingsModel(): ModelRef {
+    const provider = this.provider('EMBEDDINGS_PROVIDER', 'ollama');
+    const model =
+      this.setting('EMBEDDINGS_MODEL') ??
+      (provider === 'ollama' ? this.setting('EMBEDDINGS_OLLAMA_MODEL') : undefined) ??
+      DEFAULT_EMBEDDING_MODELS[provider];
+    return { provider, model };
+  }
+
+  /**
+   * Shared embeddings (EMBEDDINGS_PROVIDER + EMBEDDINGS_MODEL, or EMBEDDINGS_OLLAMA_MODEL for
+   * Ollama). Not overridable per request: stored vectors only compare with the same model.
+   * Cached in Postgres unless EMBEDDINGS_CACHE=off; misses are embedded in batches of
+   * EMBEDDINGS_BATCH_SIZE.
+   */
+  getEmbeddings(): Embeddings {
+    if (!this.embeddings) {
+      const { provider, model } = this.embeddingsModel();
+      const embeddings = this.createEmbeddings({ provider, model });
+      const cache = this.configService.get<string>('EMBEDDINGS_CACHE') !== 'off';
+      const batchSize = parseInt(this.configService.get('EMBEDDINGS_BATCH_SIZE') ?? '32', 10);
+      this.embeddings = cache
+        ? new CachedEmbeddings(embeddings, `${provider}:${model}`, this.embeddingCacheStore(), batchSize)
+        : embeddings;
+      this.appLog.log('Embeddings model', { provider, model, cache });
+    }
+    return this.embeddings;
+  }
+
+  private embeddingCacheStore(): EmbeddingCacheStore {
+    return {
+      get: async (model, kind, hashes) => {
+        const rows = await this.prisma.embeddingCache.findMany({
+          where: { model, kind, textHash: { in: hashes } },
+          select: { textHash: true, embedding: true },
+        });
+        return new Map(rows.map((row) => [row.textHash, row.embedding]));
+      },
+      set: async (model, kind, entries) => {
+        await this.prisma.embeddingCache.createMany({
+          data: entries.map((e) => ({ model, kind, textHash: e.hash, embedding: e.embedding })),
+          skipDuplicates: true,
+        });
+      },
+    };
+  }
+
+  private createChatModel({ provider, model }: ModelRef): BaseChatModel {
+    switch (provider) {
+      case 'openai':
+        return new ChatOpenAI({ model, temperature: 0, ...this.openAiConnection() });
+      case 'gemini':
+        return new ChatGoogleGenerativeAI({ model, temperature: 0, apiKey: this.geminiKey() });
+      default:
+        return new ChatOllama({ model, baseUrl: this.ollamaBaseUrl(), temperature: 0 });
+    }
+  }
+
+  private createEmbeddings({ provider, model }: ModelRef): Embeddings {
+    switch (provider) {
+      case 'openai':
+        return new OpenAIEmbeddings({ model, ...this.openAiConnection() });
+      case 'gemini':
+        return new GoogleGenerativeAIEmbeddings({ model, apiKey: this.geminiKey() });
+      default:
+        return new OllamaEmbeddings({ model, baseUrl: this.ollamaBaseUrl() });
+    }
+  }
+
+  private ollamaBaseUrl(): string {
+    return this.setting('OLLAMA_BASE_URL') ?? 'http://localhost:11434';
+  }
+
+  /**
+   * Key and endpoint of the openai provider. OPENAI_API_KEY goes to OPENAI_BASE_URL (default
+   * api.openai.com). OPENROUTER_API_KEY is only sent to OpenRouter, unless OPENAI_BASE_URL names
+   * another endpoint. Local OpenAI-compatible servers accept any key. Empty values count as unset.
+   */
+  private openAiConnection(): { apiKey: string; configuration: { baseURL?: string } } {
+    const baseURL = this.setting('OPENAI_BASE_URL');
+    const openAiKey = this.setting('OPENAI_API_KEY');
+    if (openAiKey) return { apiKey: openAiKey, configuration: { baseURL } };
+    const openRouterKey = this.setting('OPENROUTER_API_KEY');
+    if (openRouterKey) {
+      return { apiKey: openRouterKey, configuration: { baseURL: baseURL ?? OPENROUTER_BASE_URL } };
+    }
+    if (baseURL) return { apiKey: 'not-needed', configuration: { baseURL } };
+    throw new BadRequestException(
+      'The openai provider requires OPENAI_API_KEY, OPENROUTER_API_KEY or OPENAI_BASE_URL',
+    );
+  }
+
+  private geminiKey(): string {
+    const key = this.configService.get<string>('GEMINI_API_KEY');
+    if (!key?.trim()) throw new BadRequestException('The gemini provider requires GEMINI_API_KEY');
+    return key.trim();
+  }
+}
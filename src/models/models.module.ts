@@ -0,0 +1,9 @@
+import { Global, Module } from '@nestjs/common';
+import { ModelProviderService } from './model-provider.service';
+
+@Global()
+@Module({
+  providers: [ModelProviderService],
+  exports: [ModelProviderService],
+})
+export class ModelsModule { }
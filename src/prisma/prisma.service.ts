@@ -0,0 +1,26 @@
+import { Injectable, OnModuleDestroy, OnModuleInit } from '@nestjs/common';
+import { PrismaClient } from '@prisma/client';
+import { AppLogger } from '../common/app-logger';
+
+@Injectable()
+export class PrismaService extends PrismaClient implements OnModuleInit, OnModuleDestroy {
+  private readonly appLog = new AppLogger(PrismaService.name);
+
+  async onModuleInit(): Promise<void> {
+    // Postgres is optional for the chat RAG flow: log and keep booting if it is not up yet.
+    // Prisma connects lazily on the first query, so it recovers once the database is reachable.
+    try {
+      await this.$connect();
+      this.appLog.log('Connected to Postgres');
+    } catch (err) {
+      this.appLog.warn('Postgres unreachable at startup', {
+        error: err instanceof Error ? err.message : String(err),
+        hint: 'Ensure Postgres is running (e.g. docker compose up -d postgres) and DATABASE_URL is set.',
+      });
+    }
+  }
+
+  async onModuleDestroy(): Promise<void> {
+    await this.$disconnect();
+  }
+}
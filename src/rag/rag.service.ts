@@ -1,31 +1,305 @@
 import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Document } from '@langchain/core/documents';
+import { randomUUID } from 'crypto';
+import { Prisma } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { AppLogger } from '../common/app-logger';
+import { ModelProviderService } from '../models/model-provider.service';
+import { ACCESS_FIELD, scopeEntries, type AccessScope } from '../chat/helper/access-control';
+
+/** Knowledge base used when a request names none; backed by QDRANT_COLLECTION. */
+export const DEFAULT_KNOWLEDGE_BASE = 'default';
 
 export interface RagDocument {
+  /** DocumentChunk id. */
   id: string;
+  documentId: string;
   title: string;
   content: string;
   source?: string;
+  chunkIndex: number;
+  /** Cosine similarity in [-1, 1]; higher is closer. */
+  score: number;
+  metadata: Record<string, unknown>;
+}
+
+export interface SaveDocumentInput {
+  id: string;
+  knowledgeBaseId: string;
+  title: string;
+  /** Full extracted text, kept for listing and for reindexing inline documents. */
+  content: string;
+  contentHash: string;
+  sourceKey?: string;
+  source?: string;
+  filename?: string;
+  filePath?: string;
+  metadata?: Record<string, unknown>;
+  /** Which chat vector store holds the chunks ("qdrant" | "memory"). */
+  vectorStore: string;
+  chunks: Document[];
+  /** Embedding of each chunk, as already written to the chat vector store. */
+  vectors: number[][];
+}
+
+/** Which chunks a search may return. */
+export interface SearchScope {
+  /** Knowledge base to search; defaults to "default". */
+  knowledgeBaseId?: string;
+  /** Caller's document access; unset means unrestricted. */
+  access?: AccessScope;
+}
+
+interface ChunkRow {
+  id: string;
+  documentId: string;
+  title: string;
+  source: string | null;
+  chunkIndex: number;
+  content: string;
+  metadata: Record<string, unknown> | null;
+  score: number;
+}
+
+/** SQL form of the document access rule: chunks without an ACL, or sharing an entry with the caller. */
+function accessCondition(access?: AccessScope): Prisma.Sql {
+  if (!access) return Prisma.empty;
+  const field = Prisma.raw(`'${ACCESS_FIELD}'`);
+  return Prisma.sql`
+    AND (COALESCE(c."metadata"->${field}, '[]'::jsonb) = '[]'::jsonb
+         OR c."metadata"->${field} ?| ${scopeEntries(access)}::text[])`;
+}
+
+/** Chunks of indexed documents in the scope's knowledge base that the caller may read. */
+function scopeCondition({ knowledgeBaseId = DEFAULT_KNOWLEDGE_BASE, access }: SearchScope): Prisma.Sql {
+  return Prisma.sql`
+    AND d."knowledgeBaseId" = ${knowledgeBaseId} AND d."status" = 'indexed' ${accessCondition(access)}`;
 }
 
+function toRagDocument(row: ChunkRow): RagDocument {
+  return {
+    id: row.id,
+    documentId: row.documentId,
+    title: row.title,
+    content: row.content,
+    source: row.source ?? undefined,
+    chunkIndex: row.chunkIndex,
+    score: Number(row.score),
+    metadata: row.metadata ?? {},
+  };
+}
+
+/** pgvector text literal, e.g. "[0.1,0.2,0.3]". */
+function toVectorLiteral(embedding: number[]): string {
+  return `[${embedding.join(',')}]`;
+}
+
+/**
+ * pgvector-backed knowledge store: `Document` rows are the registry of ingested sources and
+ * `DocumentChunk` rows hold their embedded chunks. Used by the agent for retrieval.
+ */
 @Injectable()
 export class RagService {
+  private readonly appLog = new AppLogger(RagService.name);
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly prisma: PrismaService,
+    private readonly models: ModelProviderService,
+  ) { }
+
+  /** Same embeddings as ChatService so vectors from both stores are comparable. */
+  private getEmbeddings() {
+    return this.models.getEmbeddings();
+  }
+
   /**
-   * Placeholder implementation.
-   * Later this will:
-   * - embed the query,
-   * - query pgvector via Prisma or SQL,
-   * - return the top-k results.
+   * Create or replace a registry entry and its chunks (with the given embeddings). Existing
+   * chunks of the same document are dropped first, so this is also the reindex path.
    */
-  async search(query: string): Promise<RagDocument[]> {
-    // TODO: wire to pgvector-backed store
-    return [
-      {
-        id: 'placeholder-doc',
-        title: 'Agentic RAG System Overview',
-        content: `You asked: "${query}". This is a stubbed RAG result.`,
-        source: 'stub',
-      },
-    ];
+  async saveDocument(input: SaveDocumentInput): Promise<void> {
+    const { id, chunks, vectors } = input;
+    if (vectors.length !== chunks.length) {
+      throw new Error(`Expected ${chunks.length} embeddings for document ${id}, got ${vectors.length}`);
+    }
+
+    const data = {
+      knowledgeBaseId: input.knowledgeBaseId,
+      title: input.title,
+      content: input.content,
+      source: input.source ?? null,
+      filename: input.filename ?? null,
+      filePath: input.filePath ?? null,
+      sourceKey: input.sourceKey ?? null,
+      contentHash: input.contentHash,
+      chunkCount: chunks.length,
+      metadata: (input.metadata ?? {}) as Prisma.InputJsonValue,
+      vectorStore: input.vectorStore,
+      status: 'indexed',
+    };
+
+    // Prisma cannot write Unsupported("vector") columns, so chunks go through raw SQL.
+    await this.prisma.$transaction([
+      this.prisma.document.upsert({ where: { id }, create: { id, ...data }, update: data }),
+      this.prisma.documentChunk.deleteMany({ where: { documentId: id } }),
+      ...chunks.map((chunk, i) =>
+        this.prisma.$executeRaw`
+          INSERT INTO "DocumentChunk" ("id", "documentId", "chunkIndex", "content", "metadata", "embedding")
+          VALUES (
+            ${randomUUID()},
+            ${id},
+            ${i},
+            ${chunk.pageContent},
+            ${JSON.stringify(chunk.metadata ?? {})}::jsonb,
+            ${toVectorLiteral(vectors[i])}::vector
+          )`,
+      ),
+    ]);
+
+    this.appLog.debug('pgvector: document stored', {
+      documentId: id,
+      source: input.source,
+      chunks: chunks.length,
+    });
+  }
+
+  listDocuments(knowledgeBaseId?: string) {
+    return this.prisma.document.findMany({
+      where: knowledgeBaseId ? { knowledgeBaseId } : undefined,
+      orderBy: { createdAt: 'desc' },
+      omit: { content: true },
+    });
+  }
+
+  getDocument(id: string) {
+    return this.prisma.document.findUnique({ where: { id } });
+  }
+
+  /** An indexed document of the knowledge base in the given vector store with exactly this content, if any. */
+  findByContentHash(contentHash: string, vectorStore: string, knowledgeBaseId: string) {
+    return this.prisma.document.findFirst({
+      where: { contentHash, vectorStore, knowledgeBaseId, status: 'indexed' },
+      orderBy: { createdAt: 'asc' },
+    });
   }
-}
 
+  /** The latest document of the knowledge base ingested from the same source (filename / meta.source), if any. */
+  findBySourceKey(sourceKey: string, knowledgeBaseId: string) {
+    return this.prisma.document.findFirst({
+      where: { sourceKey, knowledgeBaseId },
+      orderBy: { updatedAt: 'desc' },
+    });
+  }
+
+  /** Chunks of indexed documents in a vector store, e.g. to rebuild the in-process keyword index. */
+  listChunks(vectorStore: string, knowledgeBaseId: string) {
+    return this.prisma.documentChunk.findMany({
+      where: { document: { vectorStore, knowledgeBaseId, status: 'indexed' } },
+      select: { content: true, metadata: true },
+      orderBy: [{ documentId: 'asc' }, { chunkIndex: 'asc' }],
+    });
+  }
+
+  /** Delete a registry entry; its pgvector chunks cascade. */
+  async deleteDocument(id: string): Promise<void> {
+    await this.prisma.document.deleteMany({ where: { id } });
+  }
+
+  /** Knowledge bases with their number of registered documents. */
+  async listKnowledgeBases() {
+    const [knowledgeBases, counts] = await Promise.all([
+      this.prisma.knowledgeBase.findMany({ orderBy: { createdAt: 'asc' } }),
+      this.prisma.document.groupBy({ by: ['knowledgeBaseId'], _count: { _all: true } }),
+    ]);
+    const documentCount = new Map(counts.map((c) => [c.knowledgeBaseId, c._count._all]));
+    return knowledgeBases.map((kb) => ({ ...kb, documentCount: documentCount.get(kb.id) ?? 0 }));
+  }
+
+  getKnowledgeBase(id: string) {
+    return this.prisma.knowledgeBase.findUnique({ where: { id } });
+  }
+
+  createKnowledgeBase(data: { id: string; name: string; description?: string; collection: string }) {
+    return this.prisma.knowledgeBase.create({ data });
+  }
+
+  /** Create the knowledge base if it is missing (used for the default one at startup). */
+  ensureKnowledgeBase(data: { id: string; name: string; collection: string }) {
+    return this.prisma.knowledgeBase.upsert({ where: { id: data.id }, create: data, update: {} });
+  }
+
+  /**
+   * Delete a knowledge base, its registry entries and invoices (chunks and line items cascade).
+   * Returns the documents removed.
+   */
+  async deleteKnowledgeBase(id: string): Promise<number> {
+    const [{ count }] = await this.prisma.$transaction([
+      this.prisma.document.deleteMany({ where: { knowledgeBaseId: id } }),
+      this.prisma.invoice.deleteMany({ where: { knowledgeBaseId: id } }),
+      this.prisma.knowledgeBase.deleteMany({ where: { id } }),
+    ]);
+    return count;
+  }
+
+  /**
+   * Flag documents whose vectors lived in a store that has been reset (the in-memory store on
+   * restart). They stay listed, and POST /documents/:id/reindex restores them.
+   */
+  async markStale(vectorStore: string): Promise<number> {
+    const { count } = await this.prisma.document.updateMany({
+      where: { vectorStore, status: 'indexed' },
+      data: { status: 'stale' },
+    });
+    return count;
+  }
+
+  /**
+   * Embed the query and return the top-k chunks of indexed documents in the scope's knowledge
+   * base by cosine similarity (pgvector `<=>` is cosine distance, so score = 1 - distance). With
+   * `access`, chunks of documents whose ACL excludes the caller are filtered out before ranking.
+   */
+  async search(query: string, k?: number, scope: SearchScope = {}): Promise<RagDocument[]> {
+    if (!query?.trim()) return [];
+
+    const topK = k ?? parseInt(this.configService.get('RAG_RETRIEVAL_K') ?? '8', 10);
+    const vector = toVectorLiteral(await this.getEmbeddings().embedQuery(query));
+
+    const rows = await this.prisma.$queryRaw<ChunkRow[]>`
+      SELECT c."id", c."documentId", d."title", d."source", c."chunkIndex", c."content", c."metadata",
+             1 - (c."embedding" <=> ${vector}::vector) AS "score"
+      FROM "DocumentChunk" c
+      JOIN "Document" d ON d."id" = c."documentId"
+      WHERE c."embedding" IS NOT NULL ${scopeCondition(scope)}
+      ORDER BY c."embedding" <=> ${vector}::vector
+      LIMIT ${topK}`;
+
+    this.appLog.debug('pgvector search', {
+      k: topK,
+      results: rows.length,
+      topScore: rows[0]?.score,
+    });
+
+    return rows.map(toRagDocument);
+  }
+
+  /**
+   * Case-insensitive exact-token lookup (order numbers, invoice numbers, tracking IDs),
+   * which embedding similarity tends to miss. Matches get score 1, newest documents first.
+   */
+  async findByKeyword(term: string, k = 5, scope: SearchScope = {}): Promise<RagDocument[]> {
+    if (!term?.trim()) return [];
+    const pattern = `%${term.trim().replace(/[\\%_]/g, (c) => `\\${c}`)}%`;
+
+    const rows = await this.prisma.$queryRaw<ChunkRow[]>`
+      SELECT c."id", c."documentId", d."title", d."source", c."chunkIndex", c."content", c."metadata",
+             1.0 AS "score"
+      FROM "DocumentChunk" c
+      JOIN "Document" d ON d."id" = c."documentId"
+      WHERE c."content" ILIKE ${pattern} ${scopeCondition(scope)}
+      ORDER BY d."createdAt" DESC, c."chunkIndex" ASC
+      LIMIT ${k}`;
+
+    return rows.map(toRagDocument);
+  }
+}
@@ -0,0 +1,46 @@
+import type { BaseChatModel } from '@langchain/core/language_models/chat_models';
+import { ChatPromptTemplate } from '@langchain/core/prompts';
+import { StringOutputParser } from '@langchain/core/output_parsers';
+
+export interface SessionTurn {
+  role: 'user' | 'assistant';
+  content: string;
+}
+
+const condensePrompt = ChatPromptTemplate.fromMessages([
+  [
+    'system',
+    [
+      'Rewrite the follow-up question as a standalone question that can be understood without the conversation.',
+      'Replace pronouns and references ("it", "that order", "its tracking ID") with the exact order numbers, invoice numbers, names or products from the conversation.',
+      'If the question is already standalone, return it unchanged.',
+      'Return only the rewritten question.',
+    ].join(' '),
+  ],
+  ['human', 'Conversation:\n{history}\n\nFollow-up question: {question}'],
+]);
+
+/**
+ * Turn a follow-up like "and what was its tracking ID?" into a standalone question using
+ * earlier turns, so retrieval embeds the full intent. Falls back to the original question
+ * when the model returns nothing usable.
+ */
+export async function condenseQuestion(
+  llm: BaseChatModel,
+  history: SessionTurn[],
+  question: string,
+  signal?: AbortSignal,
+): Promise<string> {
+  if (history.length === 0) return question;
+
+  const chain = condensePrompt.pipe(llm).pipe(new StringOutputParser());
+  const standalone = await chain.invoke({
+    history: history
+      .map((t) => `${t.role === 'user' ? 'User' : 'Assistant'}: ${t.content}`)
+      .join('\n'),
+    question,
+  }, { signal });
+
+  const cleaned = standalone.trim().replace(/^["']|["']$/g, '');
+  return cleaned.length > 0 ? cleaned : question;
+}
@@ -0,0 +1,25 @@
+import { Controller, Delete, Get, Param } from '@nestjs/common';
+import { SessionService } from './session.service';
+import { CurrentKey, Roles, sessionOwnerOf, type ApiKeyPrincipal } from '../auth/auth.decorators';
+
+@Roles(['query'])
+@Controller('sessions')
+export class SessionController {
+  constructor(private readonly sessionService: SessionService) { }
+
+  @Get()
+  list(@CurrentKey() key?: ApiKeyPrincipal) {
+    return this.sessionService.list(sessionOwnerOf(key));
+  }
+
+  @Get(':id')
+  get(@Param('id') id: string, @CurrentKey() key?: ApiKeyPrincipal) {
+    return this.sessionService.get(id, sessionOwnerOf(key));
+  }
+
+  @Delete(':id')
+  @Roles(['admin'])
+  delete(@Param('id') id: string) {
+    return this.sessionService.delete(id);
+  }
+}
@@ -0,0 +1,109 @@
+import { Injectable, NotFoundException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Prisma } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { SessionTurn } from './condense-question';
+
+/**
+ * Stores conversation sessions and their messages for multi-turn /chat/ask and /agent/chat.
+ * `owner` (see sessionOwnerOf) limits every call to the sessions of one API key; a session of
+ * another key is reported as not found. Without an owner all sessions are reachable.
+ */
+@Injectable()
+export class SessionService {
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly configService: ConfigService,
+  ) { }
+
+  /**
+   * Most recent turns of a session in chronological order (empty for unknown sessions),
+   * capped by SESSION_HISTORY_MESSAGES (default 10).
+   */
+  async getHistory(sessionId: string, owner?: string): Promise<SessionTurn[]> {
+    if (owner !== undefined) {
+      const session = await this.prisma.chatSession.findUnique({
+        where: { id: sessionId },
+        select: { apiKeyId: true },
+      });
+      if (session) this.assertOwner(sessionId, session.apiKeyId, owner);
+    }
+    const limit = parseInt(this.configService.get('SESSION_HISTORY_MESSAGES') ?? '10', 10);
+    const messages = await this.prisma.chatMessage.findMany({
+      where: { sessionId },
+      orderBy: { createdAt: 'desc' },
+      take: limit,
+    });
+    return messages.reverse().map((m) => ({
+      role: m.role === 'assistant' ? 'assistant' : 'user',
+      content: m.content,
+    }));
+  }
+
+  /** Append a question/answer pair, creating the session on first use (clients may pick their own ids). */
+  async appendTurn(
+    sessionId: string,
+    question: string,
+    answer: string,
+    metadata?: Record<string, unknown>,
+    owner?: string,
+  ): Promise<void> {
+    const now = Date.now();
+    const session = await this.prisma.chatSession.upsert({
+      where: { id: sessionId },
+      create: { id: sessionId, title: question.trim().slice(0, 80), apiKeyId: owner ?? null },
+      update: {},
+    });
+    if (owner !== undefined) this.assertOwner(sessionId, session.apiKeyId, owner);
+    await this.prisma.chatMessage.createMany({
+      data: [
+        { sessionId, role: 'user', content: question, createdAt: new Date(now) },
+        {
+          sessionId,
+          role: 'assistant',
+          content: answer,
+          metadata: metadata as Prisma.InputJsonValue | undefined,
+          // +1ms keeps user/assistant order stable when sorting by createdAt
+          createdAt: new Date(now + 1),
+        },
+      ],
+    });
+    // Bump updatedAt so recently active sessions list first.
+    await this.prisma.chatSession.update({
+      where: { id: sessionId },
+      data: { updatedAt: new Date(now) },
+    });
+  }
+
+  async list(owner?: string) {
+    const sessions = await this.prisma.chatSession.findMany({
+      where: owner !== undefined ? { apiKeyId: owner } : undefined,
+      orderBy: { updatedAt: 'desc' },
+      take: 100,
+      include: { _count: { select: { messages: true } } },
+    });
+    return sessions.map(({ _count, ...session }) => ({
+      ...session,
+      messageCount: _count.messages,
+    }));
+  }
+
+  async get(sessionId: string, owner?: string) {
+    const session = await this.prisma.chatSession.findFirst({
+      where: { id: sessionId, ...(owner !== undefined ? { apiKeyId: owner } : {}) },
+      include: { messages: { orderBy: { createdAt: 'asc' } } },
+    });
+    if (!session) throw new NotFoundException(`Session ${sessionId} not found`);
+    return session;
+  }
+
+  private assertOwner(sessionId: string, apiKeyId: string | null, owner: string): void {
+    if (apiKeyId !== owner) throw new NotFoundException(`Session ${sessionId} not found`);
+  }
+
+  async delete(sessionId: string) {
+    const { count } = await this.prisma.chatSession.deleteMany({ where: { id: sessionId } });
+    if (count === 0) throw new NotFoundException(`Session ${sessionId} not found`);
+    return { success: true, id: sessionId };
+  }
+}
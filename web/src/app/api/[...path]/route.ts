@@ -0,0 +1,49 @@
+/**
+ * Same-origin proxy to the NestJS API. The API key (API_KEY) is read on the server at runtime
+ * and added here, so it never reaches the browser bundle. Only the routes the UI calls are
+ * forwarded; anything else through this app is a 404.
+ */
+const API_URL = process.env.API_URL || 'http://localhost:3000';
+
+const FORWARDED_ROUTES = new Set(['chat/upload', 'chat/ask', 'chat/ask/stream', 'agent/chat']);
+
+/** Request headers passed on; cookies and other browser headers stay here. */
+const REQUEST_HEADERS = ['content-type', 'accept'];
+
+/** Response headers passed back (SSE content type, rate limit hints). */
+const RESPONSE_HEADERS = ['content-type', 'cache-control', 'retry-after', 'x-ratelimit-remaining'];
+
+export const dynamic = 'force-dynamic';
+
+export async function POST(request: Request, { params }: { params: Promise<{ path: string[] }> }) {
+  const route = (await params).path.join('/');
+  if (!FORWARDED_ROUTES.has(route)) {
+    return Response.json({ message: `Cannot POST /api/${route}` }, { status: 404 });
+  }
+
+  const headers = new Headers();
+  for (const name of REQUEST_HEADERS) {
+    const value = request.headers.get(name);
+    if (value) headers.set(name, value);
+  }
+  if (process.env.API_KEY) headers.set('X-API-Key', process.env.API_KEY);
+
+  let upstream: Response;
+  try {
+    upstream = await fetch(`${API_URL}/${route}`, {
+      method: 'POST',
+      headers,
+      body: await request.arrayBuffer(),
+    });
+  } catch {
+    return Response.json({ message: 'API is unreachable' }, { status: 502 });
+  }
+
+  const responseHeaders = new Headers();
+  for (const name of RESPONSE_HEADERS) {
+    const value = upstream.headers.get(name);
+    if (value) responseHeaders.set(name, value);
+  }
+  // The body is streamed through, so SSE answers arrive token by token.
+  return new Response(upstream.body, { status: upstream.status, headers: responseHeaders });
+}
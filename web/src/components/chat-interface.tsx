@@ -1,19 +1,21 @@
 'use client';
 
 import { useRef, useState } from 'react';
-import { askQuestion, type AskResponse } from '@/lib/api';
+import { askQuestionStream, type Citation } from '@/lib/api';
 
 interface Message {
   id: string;
   role: 'user' | 'assistant';
   content: string;
-  sources?: string[];
+  citations?: Citation[];
 }
 
 export default function ChatInterface() {
   const [messages, setMessages] = useState<Message[]>([]);
   const [input, setInput] = useState('');
   const [loading, setLoading] = useState(false);
+  // One conversation per page load so follow-up questions resolve against earlier turns.
+  const [sessionId] = useState(() => crypto.randomUUID());
   const scrollRef = useRef<HTMLDivElement>(null);
 
   const scrollToBottom = () =>
@@ -33,24 +35,34 @@ export default function ChatInterface() {
     setLoading(true);
     scrollToBottom();
 
+    // Render the assistant reply incrementally as tokens stream in.
+    const assistantId = (Date.now() + 1).toString();
+    const updateAssistant = (patch: (msg: Message) => Message) =>
+      setMessages((prev) => prev.map((m) => (m.id === assistantId ? patch(m) : m)));
+    setMessages((prev) => [...prev, { id: assistantId, role: 'assistant', content: '' }]);
+
     try {
-      const res: AskResponse = await askQuestion(question);
-      const assistantMsg: Message = {
-        id: (Date.now() + 1).toString(),
-        role: 'assistant',
-        content: res.answer || res.message || 'No response.',
-        sources: res.sources,
-      };
-      setMessages((prev) => [...prev, assistantMsg]);
-    } catch (err) {
-      setMessages((prev) => [
-        ...prev,
+      const done = await askQuestionStream(
+        question,
         {
-          id: (Date.now() + 1).toString(),
-          role: 'assistant',
-          content: `Error: ${err instanceof Error ? err.message : 'Something went wrong'}`,
+          onToken: (token) => {
+            setLoading(false);
+            updateAssistant((m) => ({ ...m, content: m.content + token }));
+            scrollToBottom();
+          },
         },
-      ]);
+        sessionId,
+      );
+      updateAssistant((m) => ({
+        ...m,
+        content: m.content || done.message || 'No response.',
+        citations: done.citations,
+      }));
+    } catch (err) {
+      updateAssistant((m) => ({
+        ...m,
+        content: `Error: ${err instanceof Error ? err.message : 'Something went wrong'}`,
+      }));
     } finally {
       setLoading(false);
       scrollToBottom();
@@ -72,7 +84,7 @@ export default function ChatInterface() {
             <p className="text-sm">Upload documents first, then ask questions here</p>
           </div>
         )}
-        {messages.map((msg) => (
+        {messages.filter((msg) => msg.content || msg.role === 'user').map((msg) => (
           <div
             key={msg.id}
             className={`flex ${msg.role === 'user' ? 'justify-end' : 'justify-start'}`}
@@ -85,13 +97,14 @@ export default function ChatInterface() {
               }`}
             >
               <p className="whitespace-pre-wrap">{msg.content}</p>
-              {msg.sources && msg.sources.length > 0 && (
+              {msg.citations && msg.citations.length > 0 && (
                 <div className="mt-2 border-t border-neutral-200 pt-2">
                   <p className="text-xs font-medium text-neutral-500">Sources:</p>
                   <ul className="mt-1 space-y-0.5">
-                    {msg.sources.map((s, i) => (
-                      <li key={i} className="text-xs text-neutral-400 truncate">
-                        {s.split('/').pop()}
+                    {msg.citations.map((c, i) => (
+                      <li key={i} className="text-xs text-neutral-400 truncate" title={c.snippet}>
+                        {c.file}
+                        {c.page != null && `, p. ${c.page}`}
                       </li>
                     ))}
                   </ul>
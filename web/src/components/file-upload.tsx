@@ -7,8 +7,13 @@ const ACCEPTED_TYPES = [
   'application/pdf',
   'application/msword',
   'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  'text/plain',
+  'text/markdown',
+  'text/html',
+  'text/csv',
 ];
-const ACCEPTED_EXTENSIONS = '.pdf,.doc,.docx';
+const ACCEPTED_EXTENSIONS = '.pdf,.doc,.docx,.txt,.md,.markdown,.html,.htm,.csv';
+const ACCEPTED_NAME = /\.(pdf|docx?|txt|md|markdown|html?|csv)$/i;
 
 export default function FileUpload() {
   const inputRef = useRef<HTMLInputElement>(null);
@@ -22,10 +27,10 @@ export default function FileUpload() {
     const valid = Array.from(incoming).filter(
       (f) =>
         ACCEPTED_TYPES.includes(f.type) ||
-        /\.(pdf|docx?)$/i.test(f.name),
+        ACCEPTED_NAME.test(f.name),
     );
     if (valid.length === 0) {
-      setError('Only PDF and DOC/DOCX files are accepted.');
+      setError('Only PDF, Word, text, Markdown, HTML and CSV files are accepted.');
       return;
     }
     setError('');
@@ -94,7 +99,7 @@ export default function FileUpload() {
           Drop files here or click to browse
         </p>
         <p className="mt-1 text-xs text-neutral-400">
-          PDF, DOC, DOCX &mdash; up to 10 files
+          PDF, DOC, DOCX, TXT, MD, HTML, CSV &mdash; up to 10 files
         </p>
         <input
           ref={inputRef}
@@ -175,6 +180,12 @@ export default function FileUpload() {
             {result.documentsProcessed} document(s) processed &middot;{' '}
             {result.chunksAdded} chunks indexed
           </p>
+          {!!(result.skipped || result.replaced) && (
+            <p className="mt-1 text-green-700">
+              {result.added ?? 0} new &middot; {result.replaced ?? 0} updated &middot;{' '}
+              {result.skipped ?? 0} unchanged (skipped)
+            </p>
+          )}
           {result.uploadedFiles && (
             <ul className="mt-2 list-disc pl-4 text-xs text-green-600">
               {result.uploadedFiles.map((name) => (
@@ -1,4 +1,5 @@
-const API_BASE = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:3000';
+/** Same-origin proxy (src/app/api/[...path]/route.ts); it adds the API key on the server. */
+const API_BASE = '/api';
 
 export async function uploadFiles(files: File[]): Promise<UploadResponse> {
   const formData = new FormData();
@@ -17,11 +18,14 @@ export async function uploadFiles(files: File[]): Promise<UploadResponse> {
   return res.json();
 }
 
-export async function askQuestion(question: string): Promise<AskResponse> {
+export async function askQuestion(
+  question: string,
+  sessionId?: string,
+): Promise<AskResponse> {
   const res = await fetch(`${API_BASE}/chat/ask`, {
     method: 'POST',
     headers: { 'Content-Type': 'application/json' },
-    body: JSON.stringify({ question }),
+    body: JSON.stringify({ question, sessionId }),
   });
 
   if (!res.ok) {
@@ -32,6 +36,58 @@ export async function askQuestion(question: string): Promise<AskResponse> {
   return res.json();
 }
 
+export interface AskStreamHandlers {
+  /** Called for every answer delta as it arrives. */
+  onToken: (token: string) => void;
+}
+
+/**
+ * POST /chat/ask/stream and parse its Server-Sent Events. Resolves with the final
+ * `done` payload (citations, contextCount) once the stream ends.
+ */
+export async function askQuestionStream(
+  question: string,
+  handlers: AskStreamHandlers,
+  sessionId?: string,
+): Promise<AskStreamDone> {
+  const res = await fetch(`${API_BASE}/chat/ask/stream`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', Accept: 'text/event-stream' },
+    body: JSON.stringify({ question, sessionId }),
+  });
+
+  if (!res.ok || !res.body) {
+    const err = await res.json().catch(() => ({ message: res.statusText }));
+    throw new Error(err.message || 'Query failed');
+  }
+
+  const reader = res.body.pipeThrough(new TextDecoderStream()).getReader();
+  let buffer = '';
+  let done: AskStreamDone | null = null;
+
+  while (true) {
+    const { value, done: finished } = await reader.read();
+    if (finished) break;
+    buffer += value;
+
+    // Events are separated by a blank line; keep a trailing partial event in the buffer.
+    const events = buffer.split('\n\n');
+    buffer = events.pop() ?? '';
+    for (const raw of events) {
+      const event = raw.match(/^event: (.*)$/m)?.[1];
+      const data = raw.match(/^data: (.*)$/m)?.[1];
+      if (!event || data === undefined) continue;
+      const payload = JSON.parse(data);
+      if (event === 'token') handlers.onToken(payload);
+      else if (event === 'done') done = payload;
+      else if (event === 'error') throw new Error(payload.message || 'Query failed');
+    }
+  }
+
+  if (!done) throw new Error('Stream ended unexpectedly');
+  return done;
+}
+
 export async function agentChat(
   message: string,
   sessionId?: string,
@@ -57,18 +113,58 @@ export interface UploadResponse {
   documentsProcessed?: number;
   pdfsProcessed?: number;
   uploadedFiles?: string[];
+  added?: number;
+  skipped?: number;
+  replaced?: number;
+  documents?: Array<{
+    id: string;
+    filename?: string;
+    status: 'added' | 'replaced' | 'skipped';
+    chunkCount: number;
+  }>;
+}
+
+export interface Citation {
+  file: string;
+  page?: number;
+  snippet: string;
+  score: number;
+  rerankScore?: number;
+  documentId?: string;
 }
 
 export interface AskResponse {
   success: boolean;
   answer: string;
-  sources: string[];
+  citations: Citation[];
   contextCount?: number;
   message?: string;
+  sessionId?: string;
+  standaloneQuestion?: string;
+  rerank?: { reranker: string; candidates: number; kept: number };
+  queryExpansion?: {
+    expansion: 'none' | 'rewrite' | 'multi-query' | 'hyde';
+    queries: string[];
+    hypotheticalAnswer?: string;
+  };
+  answeredBy?: { provider: string; model: string; fallback: boolean };
+  groundedness?: number;
+  unsupportedSentences?: string[];
+  corrections?: number;
 }
 
+export type AskStreamDone = Omit<AskResponse, 'answer'>;
+
 export interface AgentChatResponse {
   message: string;
-  sources?: Array<{ id: string; title: string }>;
-  toolCalls?: Array<{ tool: string; success: boolean }>;
+  sessionId?: string;
+  sources?: Array<{ id: string; title: string; page?: number }>;
+  toolCalls?: Array<{
+    tool: string;
+    input: Record<string, unknown>;
+    success: boolean;
+    error?: string;
+    sql?: string;
+  }>;
+  answeredBy?: { provider: string; model: string; fallback: boolean };
 }